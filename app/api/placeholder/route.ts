@@ -0,0 +1,36 @@
+import { z } from "zod"
+import { renderPlaceholder } from "@/lib/preview/placeholder"
+
+// Sized placeholder images for the preview. See lib/preview/placeholder.ts.
+
+const dimension = z.coerce.number().int().min(1).max(4000)
+
+const placeholderQuery = z.object({
+  width: dimension.optional(),
+  height: dimension.optional(),
+  text: z.string().max(200).optional(),
+  // v0 describes the intended image in `query`
+  query: z.string().max(200).optional(),
+})
+
+export function GET(request: Request) {
+  const params = Object.fromEntries(new URL(request.url).searchParams)
+  const parsed = placeholderQuery.safeParse(params)
+  if (!parsed.success) {
+    const error = parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("\n")
+    return Response.json({ error }, { status: 400 })
+  }
+
+  const { width, height, text, query } = parsed.data
+  const svg = renderPlaceholder({
+    width: width ?? height ?? 1200,
+    height: height ?? width ?? 1200,
+    text: text ?? query,
+  })
+  return new Response(svg, {
+    headers: {
+      "Content-Type": "image/svg+xml",
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  })
+}
@@ -0,0 +1,62 @@
+import { z } from "zod"
+import { TAILWIND_PLUGINS } from "@/lib/preview/tailwind"
+import { compileTailwind, MAX_TAILWIND_INPUT } from "@/lib/preview/tailwind-compiler"
+
+// Compiles Tailwind CSS for the preview iframe. See lib/preview/tailwind.ts.
+
+const tailwindRequest = z.object({
+  config: z.record(z.unknown()),
+  plugins: z.array(z.object({ name: z.enum(TAILWIND_PLUGINS), options: z.record(z.unknown()).optional() })),
+  stylesheets: z.array(z.object({ id: z.string().nullable(), css: z.string() })),
+  content: z.array(z.string()),
+})
+
+/** Room for the JSON around the compiler's input, escaped. */
+const MAX_BODY_BYTES = 2 * MAX_TAILWIND_INPUT
+
+/** The request body as text, or null once it is larger than `limit` bytes. */
+async function readBody(request: Request, limit: number): Promise<string | null> {
+  if (Number(request.headers.get("content-length")) > limit) return null
+  if (!request.body) return ""
+  const reader = request.body.getReader()
+  const decoder = new TextDecoder()
+  let text = ""
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) return text + decoder.decode()
+    size += value.byteLength
+    if (size > limit) {
+      await reader.cancel()
+      return null
+    }
+    text += decoder.decode(value, { stream: true })
+  }
+}
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return null
+  }
+}
+
+export async function POST(request: Request) {
+  const body = await readBody(request, MAX_BODY_BYTES)
+  if (body === null) {
+    return Response.json({ error: `Request body is larger than ${MAX_BODY_BYTES} bytes` }, { status: 413 })
+  }
+
+  const parsed = tailwindRequest.safeParse(parseJson(body))
+  if (!parsed.success) {
+    const error = parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("\n")
+    return Response.json({ error }, { status: 400 })
+  }
+
+  try {
+    return Response.json(await compileTailwind(parsed.data))
+  } catch (err) {
+    return Response.json({ error: err instanceof Error ? err.message : String(err) }, { status: 422 })
+  }
+}
@@ -1,22 +1,84 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useEffect, useRef, useState } from "react"
 import { z } from "zod"
+import { ActionLog, type ActionCall } from "@/components/action-log"
+import { AddressBar, type PreviewLocation } from "@/components/address-bar"
+import { CallbackLog, type CallbackCall } from "@/components/callback-log"
 import { FileExplorer } from "@/components/file-explorer"
 import { CodePreview } from "@/components/code-preview"
-import { Play, FileText, Info, AlertTriangle, CheckCircle, XCircle, Clock, MessageSquare } from "lucide-react"
+import { ComponentGallery } from "@/components/component-gallery"
+import { PropsPanel } from "@/components/props-panel"
+import { RequestLog, type PreviewRequest } from "@/components/request-log"
+import { RootPicker } from "@/components/root-picker"
+import type { PreviewComponent } from "@/lib/preview/components"
+import { rankEntries } from "@/lib/preview/entries"
+import { isValidBase64 } from "@/lib/preview/file-types"
+import { toModuleId } from "@/lib/preview/module-id"
+import { fixturesFor, initialProps } from "@/lib/preview/prop-values"
+import type { ReactRuntime } from "@/lib/preview/react-version"
+import {
+  Play,
+  LayoutGrid,
+  FileText,
+  Info,
+  AlertTriangle,
+  CheckCircle,
+  XCircle,
+  Clock,
+  MessageSquare,
+} from "lucide-react"
 
 // ---------------------------------------------------------------------------
 // 1. Zod Schemas -------------------------------------------------------------
 // ---------------------------------------------------------------------------
-const file = z.object({
-  path: z.string().min(1, "File path cannot be empty"),
-  content: z.string(),
-  type: z.string().min(1, "File type cannot be empty"),
-})
+const file = z
+  .object({
+    path: z.string().min(1, "File path cannot be empty"),
+    content: z.string(),
+    type: z.string().min(1, "File type cannot be empty"),
+    // Binary files (images, fonts, media) arrive base64-encoded
+    encoding: z.enum(["utf8", "base64"]).optional(),
+    mimeType: z.string().optional(),
+  })
+  .refine((f) => f.encoding !== "base64" || isValidBase64(f.content), {
+    message: "Content is not valid base64",
+    path: ["content"],
+  })
 
 const project = z.object({
   files: z.array(file).min(1, "At least one file is required"),
+  // Declares what to render instead of leaving it to detection
+  entry: z
+    .object({
+      path: z.string().min(1, "Entry path cannot be empty"),
+      export: z.string().min(1, "Entry export cannot be empty").optional(),
+    })
+    .optional(),
+  // Named prop sets for the props playground, by component
+  props: z
+    .array(
+      z.object({
+        path: z.string().min(1, "Props path cannot be empty"),
+        export: z.string().min(1, "Props export cannot be empty").optional(),
+        name: z.string().optional(),
+        props: z.record(z.unknown()),
+      }),
+    )
+    .optional(),
+  // Canned responses for fetch/XHR calls; requests none of them match fail
+  mocks: z
+    .array(
+      z.object({
+        method: z.string().min(1, "Mock method cannot be empty").optional(),
+        url: z.string().min(1, "Mock URL cannot be empty"),
+        status: z.number().int().min(200).max(599).optional(),
+        headers: z.record(z.string()).optional(),
+        body: z.unknown().optional(),
+        delay: z.number().nonnegative().optional(),
+      }),
+    )
+    .optional(),
   description: z.string().optional(),
   instructions: z.string().optional(),
 })
@@ -50,23 +112,24 @@ interface ConnectionStatus {
 // ---------------------------------------------------------------------------
 // 3. Helpers -----------------------------------------------------------------
 // ---------------------------------------------------------------------------
-const stripTS = (code: string): string =>
-  code
-    // Remove imports/exports
-    .replace(/import[^;]+;?/g, "")
-    .replace(/export default function\s+(\w+)/g, "function $1")
-    .replace(/export default class\s+(\w+)/g, "class $1")
-    .replace(/export default const\s+(\w+)/g, "const $1")
-    .replace(/export default\s+/g, "")
-    .replace(/export (const|function|class|let|var) /g, "$1 ")
-    .replace(/export \{[^}]+\};?/g, "")
-    // Remove TypeScript syntax
-    .replace(/\b([A-Za-z_$][\w$]*)<[^>]+>\s*\(/g, "$1(")
-    .replace(/interface\s+\w+\s*\{[^}]*\}/g, "")
-    .replace(/type\s+\w+\s*=[^;]+;/g, "")
-    .replace(/:\s*\w+(\[\])?(\s*\|\s*\w+)*\s*[=,;)]/g, (match) => match.replace(/:\s*[^=,;)]+/, ""))
-    // Remove `"use client"` / `"use server"` directives without writing them literally
-    .replace(/['"]use\s+(?:client|server)['"];?\s*/g, "")
+const START_LOCATION: PreviewLocation = { href: "/", canGoBack: false, canGoForward: false }
+
+/** Server action calls kept in the log. */
+const MAX_ACTION_CALLS = 100
+
+/** Function prop calls kept in the log. */
+const MAX_CALLBACK_CALLS = 100
+
+/** Requests kept in the request log. */
+const MAX_REQUESTS = 100
+
+/** Replaces an earlier report of the same call, since each call is reported when made and when settled. */
+const recordCall = (calls: ActionCall[], call: ActionCall): ActionCall[] => {
+  const normalized = { ...call, args: Array.isArray(call.args) ? call.args : [call.args] }
+  return calls.some((c) => c.id === call.id)
+    ? calls.map((c) => (c.id === call.id ? normalized : c))
+    : [normalized, ...calls].slice(0, MAX_ACTION_CALLS)
+}
 
 const getErrorSummary = (issues: z.ZodIssue[]): string => {
   const mainIssue = issues[0]
@@ -92,11 +155,31 @@ const getErrorSummary = (issues: z.ZodIssue[]): string => {
 export default function BraintrustCodeRenderer() {
   const [proj, setProj] = useState<Project | null>(null)
   const [selected, setSelected] = useState<Project["files"][number] | null>(null)
-  const [tab, setTab] = useState<"preview" | "files" | "info">("preview")
+  const [tab, setTab] = useState<"preview" | "components" | "files" | "info">("preview")
   const [html, setHtml] = useState("")
   const [rej, setRej] = useState<Rejected[]>([])
   const [banner, setBanner] = useState(false)
   const [previewError, setPreviewError] = useState<string | null>(null)
+  const [reactRuntime, setReactRuntime] = useState<ReactRuntime | null>(null)
+  // Problems the preview worked around, such as Tailwind CSS that did not compile
+  const [previewWarnings, setPreviewWarnings] = useState<string[]>([])
+  const [includeUnimportedCss, setIncludeUnimportedCss] = useState(false)
+  const [components, setComponents] = useState<PreviewComponent[]>([])
+  // Chosen in the picker; otherwise the declared entry or detection decides
+  const [root, setRoot] = useState<PreviewComponent | null>(null)
+  // Set when the project mounts itself rather than a root being rendered
+  const [bootstrap, setBootstrap] = useState<string | null>(null)
+  // Props edited in the playground, by `path#export`
+  const [editedProps, setEditedProps] = useState<Record<string, Record<string, unknown>>>({})
+  // App Router pages, and where the preview is among them
+  const [routes, setRoutes] = useState<string[]>([])
+  const [location, setLocation] = useState<PreviewLocation>(START_LOCATION)
+  const [actionCalls, setActionCalls] = useState<ActionCall[]>([])
+  // Calls to the function props the playground passes the rendered component
+  const [callbackCalls, setCallbackCalls] = useState<CallbackCall[]>([])
+  // Requests answered from the project's mocks, or that none matched
+  const [requests, setRequests] = useState<PreviewRequest[]>([])
+  const previewFrame = useRef<HTMLIFrameElement>(null)
   const [status, setStatus] = useState<ConnectionStatus>({
     listening: true,
     messagesReceived: 0,
@@ -108,6 +191,25 @@ export default function BraintrustCodeRenderer() {
   // ---------------- message listener ----------------
   useEffect(() => {
     const listener = (e: MessageEvent) => {
+      // The preview reports navigation; nothing it sends is a project
+      if (previewFrame.current && e.source === previewFrame.current.contentWindow) {
+        if (e.data?.type === "preview:location") {
+          const { href, canGoBack, canGoForward } = e.data
+          setLocation({ href: String(href), canGoBack: Boolean(canGoBack), canGoForward: Boolean(canGoForward) })
+        }
+        if (e.data?.type === "preview:action") setActionCalls((prev) => recordCall(prev, e.data.call))
+        if (e.data?.type === "preview:callback") {
+          setCallbackCalls((prev) => [e.data.call, ...prev].slice(0, MAX_CALLBACK_CALLS))
+        }
+        if (e.data?.type === "preview:warning") setPreviewWarnings((prev) => [...prev, String(e.data.message)])
+        if (e.data?.type === "preview:request") {
+          setRequests((prev) => [e.data.request, ...prev].slice(0, MAX_REQUESTS))
+        }
+        return
+      }
+      // Component gallery frames report the same, which only the preview shows
+      if (typeof e.data?.type === "string" && e.data.type.startsWith("preview:")) return
+
       setStatus((prev) => ({
         ...prev,
         messagesReceived: prev.messagesReceived + 1,
@@ -134,6 +236,12 @@ export default function BraintrustCodeRenderer() {
 
       const data = "files" in parsed.data.data ? parsed.data.data : parsed.data.data.output.data
       setProj(data)
+      setRoot(null)
+      setEditedProps({})
+      setLocation(START_LOCATION)
+      setActionCalls([])
+      setCallbackCalls([])
+      setRequests([])
       setStatus((prev) => ({ ...prev, validMessages: prev.validMessages + 1 }))
       setPreviewError(null)
     }
@@ -143,237 +251,52 @@ export default function BraintrustCodeRenderer() {
   }, [])
 
   // ---------------- build preview html ----------------
-  const buildPreview = (): string => {
+  const buildPreview = async (): Promise<string> => {
     if (!proj) return ""
 
     try {
-      // Find CSS/styles
-      const cssFiles = proj.files.filter(
-        (f) =>
-          f.type === "style" ||
-          f.path.includes("globals.css") ||
-          f.path.includes("styles.css") ||
-          f.path.endsWith(".css"),
-      )
-      const css = cssFiles.map((f) => f.content).join("\n")
-
-      // Find JavaScript/TypeScript files
-      const jsFiles = proj.files.filter((f) => /\.(t|j)sx?$/.test(f.path))
-
-      if (jsFiles.length === 0) {
-        return `<!DOCTYPE html><html><head><meta charset='utf-8'/></head><body>
-          <div style="padding:24px;font-family:system-ui;text-align:center;">
-            <h2>No React Components Found</h2>
-            <p>Upload files with .js, .jsx, .ts, or .tsx extensions to see a preview.</p>
-            <p>Available files: ${proj.files.map((f) => f.path).join(", ")}</p>
-          </div></body></html>`
-      }
-
-      // Process all JS/TS files
-      const userJs = jsFiles
-        .map((f) => {
-          try {
-            return `// File: ${f.path}\n${stripTS(f.content)}`
-          } catch (err) {
-            return `// Error processing ${f.path}: ${err}`
-          }
-        })
-        .join("\n\n")
-
-      // React hooks and common utilities
-      const reactSetup = `
-        const { 
-          useState, useEffect, useRef, useMemo, useCallback, useReducer, 
-          useContext, createContext, Fragment, Component, PureComponent,
-          forwardRef, memo, lazy, Suspense
-        } = React;
-        
-        // Common utilities that might be used
-        const cn = (...classes) => classes.filter(Boolean).join(' ');
-        const clsx = cn;
-        const classNames = cn;
-      `
-
-      return `<!DOCTYPE html><html><head>
-        <meta charset='utf-8'/>
-        <meta name='viewport' content='width=device-width,initial-scale=1'/>
-        <title>React App Preview</title>
-        <script crossorigin src='https://unpkg.com/react@18/umd/react.development.js'></script>
-        <script crossorigin src='https://unpkg.com/react-dom@18/umd/react-dom.development.js'></script>
-        <script src='https://unpkg.com/@babel/standalone/babel.min.js'></script>
-        <script src='https://cdn.tailwindcss.com'></script>
-        <style>
-          body { margin: 0; font-family: system-ui, -apple-system, sans-serif; }
-          .error-display { 
-            background: #fee; border: 1px solid #fcc; color: #c33; 
-            padding: 16px; margin: 16px; border-radius: 8px; 
-            white-space: pre-wrap; font-family: monospace; font-size: 14px;
-            max-height: 400px; overflow-y: auto;
-          }
-          .component-list {
-            background: #f8f9fa; border: 1px solid #dee2e6; 
-            padding: 12px; margin: 8px 0; border-radius: 6px;
-            font-family: monospace; font-size: 12px;
-          }
-          ${css}
-        </style>
-      </head><body>
-        <div id='root'></div>
-        <script>
-          window.onerror = (msg, url, line, col, error) => {
-            const errorDiv = document.createElement('div');
-            errorDiv.className = 'error-display';
-            errorDiv.textContent = 'Runtime Error:\\n' + (error && error.stack ? error.stack : msg);
-            document.getElementById('root').innerHTML = '';
-            document.getElementById('root').appendChild(errorDiv);
-            return true;
-          };
-          
-          window.addEventListener('unhandledrejection', (event) => {
-            const errorDiv = document.createElement('div');
-            errorDiv.className = 'error-display';
-            errorDiv.textContent = 'Promise Rejection:\\n' + (event.reason && event.reason.stack ? event.reason.stack : event.reason);
-            document.getElementById('root').innerHTML = '';
-            document.getElementById('root').appendChild(errorDiv);
-          });
-        </script>
-        <script type='text/babel' data-presets='typescript,react'>
-          try {
-            ${reactSetup}
-            ${userJs}
-            
-            // Auto-detect root component from common patterns
-            const findRootComponent = () => {
-              // Common component names in order of preference
-              const candidates = [
-                'App', 'HomePage', 'Home', 'Page', 'Main', 'Root', 'Index',
-                'Dashboard', 'Layout', 'Component', 'MyComponent'
-              ];
-              
-              for (const name of candidates) {
-                if (typeof window[name] === 'function') {
-                  return window[name];
-                }
-              }
-              
-              // Look for any function that starts with uppercase (likely a component)
-              const componentNames = Object.getOwnPropertyNames(window).filter(name => 
-                typeof window[name] === 'function' && 
-                name[0] === name[0].toUpperCase() &&
-                name !== 'Component' && name !== 'PureComponent' // Exclude React base classes
-              );
-              
-              if (componentNames.length > 0) {
-                return window[componentNames[0]];
-              }
-              
-              return null;
-            };
-            
-            const RootComponent = findRootComponent();
-            
-            if (!RootComponent) {
-              // Show available components for debugging
-              const allFunctions = Object.getOwnPropertyNames(window).filter(name => 
-                typeof window[name] === 'function'
-              );
-              
-              ReactDOM.createRoot(document.getElementById('root')).render(
-                <div style={{fontFamily:'system-ui',padding:24,textAlign:'center'}}>
-                  <h2>No Root Component Detected</h2>
-                  <p>Could not find a React component to render.</p>
-                  <details style={{marginTop:16,textAlign:'left'}}>
-                    <summary>Looking for components named:</summary>
-                    <div className="component-list">
-                      App, HomePage, Home, Page, Main, Root, Index, Dashboard, Layout, Component, MyComponent
-                    </div>
-                  </details>
-                  <details style={{marginTop:8,textAlign:'left'}}>
-                    <summary>Available functions ({allFunctions.length}):</summary>
-                    <div className="component-list">
-                      {allFunctions.join(', ') || 'None found'}
-                    </div>
-                  </details>
-                  <div style={{marginTop:16,fontSize:14,color:'#666'}}>
-                    Make sure your component is exported as a function and follows React naming conventions.
-                  </div>
-                </div>
-              );
-            } else {
-              class ErrorBoundary extends React.Component {
-                constructor(props) {
-                  super(props);
-                  this.state = { hasError: false, error: null };
-                }
-                
-                static getDerivedStateFromError(error) {
-                  return { hasError: true, error };
-                }
-                
-                componentDidCatch(error, errorInfo) {
-                  console.error('React Error Boundary:', error, errorInfo);
-                }
-                
-                render() {
-                  if (this.state.hasError) {
-                    return (
-                      <div className="error-display">
-                        <strong>React Component Error:</strong>\\n
-                        {this.state.error && this.state.error.stack ? this.state.error.stack : this.state.error}
-                        \\n\\n<strong>Component:</strong> {RootComponent.name || 'Unknown'}
-                      </div>
-                    );
-                  }
-                  return this.props.children;
-                }
-              }
-              
-              ReactDOM.createRoot(document.getElementById('root')).render(
-                <ErrorBoundary>
-                  <RootComponent />
-                </ErrorBoundary>
-              );
-            }
-          } catch (error) {
-            document.getElementById('root').innerHTML = 
-              '<div class="error-display"><strong>Compilation Error:</strong>\\n' + (error.stack || error) + '</div>';
-          }
-        </script>
-      </body></html>`
+      const { buildPreviewDocument } = await import("@/lib/preview/document")
+      const entry = root ? { path: root.path, export: root.export } : proj.entry
+      const build = buildPreviewDocument(proj.files, {
+        includeUnimportedCss,
+        entry,
+        fixtures: proj.props,
+        props: editedProps,
+        path: location.href,
+        mocks: proj.mocks,
+      })
+      setReactRuntime(build.react)
+      setPreviewWarnings([])
+      setComponents(build.components)
+      setBootstrap(build.bootstrap)
+      setRoutes(build.routes)
+      return build.html
     } catch (err) {
       setPreviewError(`Failed to build preview: ${err}`)
       return `<!DOCTYPE html><html><body><div class="error-display">Preview Build Error: ${err}</div></body></html>`
     }
   }
 
+  // Edited props and the location are not dependencies: the running preview
+  // gets them by postMessage, and rebuilding would reset its state. A rebuild
+  // for another reason starts from their latest values.
   useEffect(() => {
     if (proj && tab === "preview") {
-      setHtml(buildPreview())
+      let cancelled = false
+      buildPreview().then((built) => {
+        if (!cancelled) setHtml(built)
+      })
+      return () => {
+        cancelled = true
+      }
     }
-  }, [proj, tab])
+  }, [proj, tab, includeUnimportedCss, root])
 
   useEffect(() => {
     if (proj && !selected) {
       // Smart file selection priority
-      const priorities = [
-        (f: any) => f.path === "app/page.tsx",
-        (f: any) => f.path === "src/App.tsx",
-        (f: any) => f.path === "App.tsx",
-        (f: any) => f.path.includes("page.") && f.path.includes(".tsx"),
-        (f: any) => f.path.includes("App.") && f.path.includes(".tsx"),
-        (f: any) => f.path.includes("index.") && f.path.includes(".tsx"),
-        (f: any) => f.path.endsWith(".tsx"),
-        (f: any) => f.path.endsWith(".jsx"),
-      ]
-
-      let selectedFile = proj.files[0]
-      for (const priority of priorities) {
-        const found = proj.files.find(priority)
-        if (found) {
-          selectedFile = found
-          break
-        }
-      }
+      const [first] = proj.entry ? [proj.entry.path] : rankEntries(proj.files.map((f) => f.path))
+      const selectedFile = proj.files.find((f) => toModuleId(f.path) === toModuleId(first)) ?? proj.files[0]
 
       setSelected(selectedFile)
     }
@@ -476,6 +399,9 @@ export default function BraintrustCodeRenderer() {
         "type": "style"
       }
     ],
+    "entry": { "path": "App.tsx", "export": "default" },
+    "props": [{ "path": "App.tsx", "name": "Optional fixture", "props": {} }],
+    "mocks": [{ "method": "GET", "url": "https://api.example.com/users*", "body": [] }],
     "description": "Optional description",
     "instructions": "Optional instructions"
   }
@@ -505,6 +431,42 @@ export default function BraintrustCodeRenderer() {
   }
 
   // ---------------- Main UI ----------------
+  const openSource = (path: string) => {
+    const file = proj.files.find((f) => f.path.replace(/^(\.?\/)+/, "") === path)
+    if (file) {
+      setSelected(file)
+      setTab("files")
+    }
+  }
+
+  const declared = proj.entry
+  // The App Router renders pages rather than one root
+  const routing = routes.length > 0 && !root && !declared
+  const shownRoot =
+    root ??
+    (declared
+      ? components.find((c) => c.path === toModuleId(declared.path) && c.export === (declared.export ?? "default"))
+      : routing
+        ? null
+        : components[0]) ??
+    null
+  // Props only reach a root the preview mounts, not an app mounting itself
+  const propsRoot = shownRoot && (root || declared || !bootstrap) ? shownRoot : null
+  const propsKey = propsRoot ? `${propsRoot.path}#${propsRoot.export}` : ""
+  const fixtures = propsRoot ? fixturesFor(proj.props ?? [], propsRoot) : []
+  const propValues = propsRoot ? (editedProps[propsKey] ?? initialProps(propsRoot.props, fixtures[0])) : {}
+
+  // Edits go to the running preview instead of rebuilding it
+  const changeProps = (values: Record<string, unknown>) => {
+    setEditedProps((prev) => ({ ...prev, [propsKey]: values }))
+    previewFrame.current?.contentWindow?.postMessage({ type: "preview:props", props: values }, "*")
+  }
+
+  const navigate = (href: string) =>
+    previewFrame.current?.contentWindow?.postMessage({ type: "preview:navigate", href }, "*")
+  const moveHistory = (delta: number) =>
+    previewFrame.current?.contentWindow?.postMessage({ type: "preview:history", delta }, "*")
+
   return (
     <div className="h-screen flex flex-col">
       {/* Status Banner */}
@@ -531,12 +493,51 @@ export default function BraintrustCodeRenderer() {
             </span>
           )}
         </div>
-        <span className="text-gray-500">{proj.files.length} files</span>
+        <div className="flex items-center gap-2">
+          {previewWarnings.length > 0 && (
+            <span
+              className="bg-yellow-100 text-yellow-800 px-2 py-1 rounded text-xs flex items-center gap-1"
+              title={previewWarnings.join("\n\n")}
+            >
+              <AlertTriangle className="w-3 h-3" />
+              {previewWarnings.length === 1 ? "1 preview warning" : `${previewWarnings.length} preview warnings`}
+            </span>
+          )}
+          {reactRuntime?.warning && (
+            <span
+              className="bg-yellow-100 text-yellow-800 px-2 py-1 rounded text-xs flex items-center gap-1"
+              title={reactRuntime.warning}
+            >
+              <AlertTriangle className="w-3 h-3" />
+              {reactRuntime.requested ? `React ${reactRuntime.requested} unavailable` : "Invalid package.json"}
+            </span>
+          )}
+          {reactRuntime && (
+            <span
+              className="bg-blue-100 text-blue-800 px-2 py-1 rounded text-xs"
+              title={reactRuntime.requested ? `package.json requests react ${reactRuntime.requested}` : "Default runtime"}
+            >
+              React {reactRuntime.version}
+            </span>
+          )}
+          <label
+            className="flex items-center gap-1 text-xs text-gray-600 cursor-pointer"
+            title="Also inject stylesheets that no module imports"
+          >
+            <input
+              type="checkbox"
+              checked={includeUnimportedCss}
+              onChange={(e) => setIncludeUnimportedCss(e.target.checked)}
+            />
+            All CSS
+          </label>
+          <span className="text-gray-500">{proj.files.length} files</span>
+        </div>
       </div>
 
       {/* Tabs */}
       <div className="flex border-b text-sm font-medium">
-        {(["preview", "files", "info"] as const).map((t) => (
+        {(["preview", "components", "files", "info"] as const).map((t) => (
           <button
             key={t}
             onClick={() => setTab(t)}
@@ -545,6 +546,7 @@ export default function BraintrustCodeRenderer() {
             }`}
           >
             {t === "preview" && <Play className="w-4 h-4" />}
+            {t === "components" && <LayoutGrid className="w-4 h-4" />}
             {t === "files" && <FileText className="w-4 h-4" />}
             {t === "info" && <Info className="w-4 h-4" />}
             {t.charAt(0).toUpperCase() + t.slice(1)}
@@ -567,16 +569,49 @@ export default function BraintrustCodeRenderer() {
                 <pre className="text-sm text-red-700 whitespace-pre-wrap">{previewError}</pre>
               </div>
             ) : (
-              <iframe
-                title="React App Preview"
-                srcDoc={html}
-                sandbox="allow-scripts allow-same-origin"
-                className="w-full h-full border-0"
-              />
+              <div className="h-full flex flex-col">
+                {components.length > 1 && (
+                  <RootPicker components={components} selected={shownRoot} onSelect={setRoot} />
+                )}
+                {routing && (
+                  <AddressBar location={location} routes={routes} onNavigate={navigate} onHistory={moveHistory} />
+                )}
+                <div className="flex-1 flex min-h-0">
+                  <iframe
+                    ref={previewFrame}
+                    title="React App Preview"
+                    srcDoc={html}
+                    sandbox="allow-scripts allow-same-origin"
+                    className="flex-1 h-full border-0"
+                  />
+                  {propsRoot && (propsRoot.props.length > 0 || fixtures.length > 0) && (
+                    <PropsPanel
+                      key={propsKey}
+                      component={propsRoot}
+                      fixtures={fixtures}
+                      values={propValues}
+                      onChange={changeProps}
+                    />
+                  )}
+                </div>
+                {actionCalls.length > 0 && <ActionLog calls={actionCalls} onClear={() => setActionCalls([])} />}
+                {callbackCalls.length > 0 && (
+                  <CallbackLog calls={callbackCalls} onClear={() => setCallbackCalls([])} />
+                )}
+                {requests.length > 0 && <RequestLog requests={requests} onClear={() => setRequests([])} />}
+              </div>
             )}
           </div>
         )}
 
+        {tab === "components" && (
+          <ComponentGallery
+            files={proj.files}
+            options={{ includeUnimportedCss, fixtures: proj.props, mocks: proj.mocks }}
+            onOpenSource={openSource}
+          />
+        )}
+
         {tab === "files" && (
           <div className="flex h-full">
             <div className="w-1/3 border-r bg-gray-50">
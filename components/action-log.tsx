@@ -0,0 +1,65 @@
+"use client"
+
+import { LogPanel } from "@/components/log-panel"
+
+export interface ActionCall {
+  id: string
+  name: string
+  /** Module id of the file declaring the action. */
+  file: string
+  args: unknown[]
+  time: string
+  status: "pending" | "done" | "error"
+  result?: unknown
+  error?: string
+  /** Milliseconds until it settled. */
+  duration?: number
+}
+
+interface ActionLogProps {
+  /** Newest first. */
+  calls: ActionCall[]
+  onClear: () => void
+}
+
+const STATUS_STYLES: Record<ActionCall["status"], string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  done: "bg-green-100 text-green-800",
+  error: "bg-red-100 text-red-800",
+}
+
+const formatArgs = (args: unknown[]) => args.map((arg) => JSON.stringify(arg)).join(", ")
+
+/** Server action calls made by the preview, with their arguments and results. */
+export function ActionLog({ calls, onClear }: ActionLogProps) {
+  return (
+    <LogPanel
+      title={`Server actions (${calls.length})`}
+      entries={calls}
+      onClear={onClear}
+      renderRow={(call) => (
+        <details className="bg-white border rounded px-2 py-1">
+          <summary className="cursor-pointer flex items-center gap-2">
+            <span className={`px-1 rounded ${STATUS_STYLES[call.status]}`}>{call.status}</span>
+            <span className="font-semibold">{call.name}</span>
+            <span className="truncate text-gray-600">({formatArgs(call.args)})</span>
+            <span className="ml-auto shrink-0 text-gray-400">
+              {new Date(call.time).toLocaleTimeString()}
+              {call.duration !== undefined && ` · ${call.duration}ms`}
+            </span>
+          </summary>
+          <div className="mt-1 space-y-1 text-gray-700">
+            <div>File: {call.file}</div>
+            <pre className="bg-gray-100 p-1 rounded overflow-auto">{JSON.stringify(call.args, null, 2)}</pre>
+            {call.status === "done" && (
+              <pre className="bg-gray-100 p-1 rounded overflow-auto">
+                → {JSON.stringify(call.result ?? null, null, 2)}
+              </pre>
+            )}
+            {call.error && <div className="text-red-700">{call.error}</div>}
+          </div>
+        </details>
+      )}
+    />
+  )
+}
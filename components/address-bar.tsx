@@ -0,0 +1,68 @@
+"use client"
+
+import { ArrowLeft, ArrowRight, RotateCw } from "lucide-react"
+import { useEffect, useState } from "react"
+
+export interface PreviewLocation {
+  href: string
+  canGoBack: boolean
+  canGoForward: boolean
+}
+
+interface AddressBarProps {
+  location: PreviewLocation
+  /** URL patterns of the project's pages, offered as suggestions. */
+  routes: string[]
+  onNavigate: (href: string) => void
+  /** Moves through the preview's history; 0 renders the current route again. */
+  onHistory: (delta: number) => void
+}
+
+/** Navigation for an App Router project, whose routes live inside the preview. */
+export function AddressBar({ location, routes, onNavigate, onHistory }: AddressBarProps) {
+  const [value, setValue] = useState(location.href)
+
+  useEffect(() => setValue(location.href), [location.href])
+
+  const button = "p-1 rounded text-gray-600 hover:bg-gray-200 disabled:opacity-40 disabled:hover:bg-transparent"
+
+  return (
+    <form
+      className="flex items-center gap-1 px-4 py-2 border-b bg-gray-50 text-sm"
+      onSubmit={(e) => {
+        e.preventDefault()
+        onNavigate(value.startsWith("/") ? value : `/${value}`)
+      }}
+    >
+      <button type="button" className={button} title="Back" disabled={!location.canGoBack} onClick={() => onHistory(-1)}>
+        <ArrowLeft className="w-4 h-4" />
+      </button>
+      <button
+        type="button"
+        className={button}
+        title="Forward"
+        disabled={!location.canGoForward}
+        onClick={() => onHistory(1)}
+      >
+        <ArrowRight className="w-4 h-4" />
+      </button>
+      <button type="button" className={button} title="Reload" onClick={() => onHistory(0)}>
+        <RotateCw className="w-4 h-4" />
+      </button>
+      <input
+        className="flex-1 border rounded px-2 py-1 bg-white font-mono text-xs"
+        value={value}
+        list="preview-routes"
+        spellCheck={false}
+        aria-label="Preview address"
+        onChange={(e) => setValue(e.target.value)}
+      />
+      <datalist id="preview-routes">
+        {routes.map((route) => (
+          <option key={route} value={route} />
+        ))}
+      </datalist>
+      <span className="text-xs text-gray-500 ml-1">{routes.length} routes</span>
+    </form>
+  )
+}
@@ -0,0 +1,45 @@
+"use client"
+
+import { LogPanel } from "@/components/log-panel"
+
+export interface CallbackCall {
+  id: string
+  /** The prop that was called. */
+  name: string
+  /** The component it was passed to, as `path#export`. */
+  component: string
+  args: unknown[]
+  time: string
+}
+
+interface CallbackLogProps {
+  /** Newest first. */
+  calls: CallbackCall[]
+  onClear: () => void
+}
+
+const formatArgs = (args: unknown[]) => args.map((arg) => JSON.stringify(arg)).join(", ")
+
+/** Calls the rendered component made to the function props the playground gave it. */
+export function CallbackLog({ calls, onClear }: CallbackLogProps) {
+  return (
+    <LogPanel
+      title={`Prop calls (${calls.length})`}
+      entries={calls}
+      onClear={onClear}
+      renderRow={(call) => (
+        <details className="bg-white border rounded px-2 py-1">
+          <summary className="cursor-pointer flex items-center gap-2">
+            <span className="font-semibold">{call.name}</span>
+            <span className="truncate text-gray-600">({formatArgs(call.args)})</span>
+            <span className="ml-auto shrink-0 text-gray-400">{new Date(call.time).toLocaleTimeString()}</span>
+          </summary>
+          <div className="mt-1 space-y-1 text-gray-700">
+            <div>Component: {call.component}</div>
+            <pre className="bg-gray-100 p-1 rounded overflow-auto">{JSON.stringify(call.args, null, 2)}</pre>
+          </div>
+        </details>
+      )}
+    />
+  )
+}
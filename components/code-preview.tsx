@@ -1,21 +1,74 @@
 "use client"
 
+import { fileDataUrl, fileMimeType, fileSize, isBinaryFile, toTextFile } from "@/lib/preview/file-types"
+
 interface ProjectFile {
   path: string
   content: string
   type: string
+  encoding?: "utf8" | "base64"
+  mimeType?: string
+}
+
+const formatSize = (bytes: number): string =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`
+
+/** Shows a binary file as what it is: an image, a player or a font specimen. */
+function BinaryPreview({ file, size }: { file: ProjectFile; size: number }) {
+  const mimeType = fileMimeType(file) ?? "application/octet-stream"
+  const url = fileDataUrl(file)
+  const kind = mimeType.split("/")[0]
+  const family = `preview-font-${file.path.replace(/[^a-z0-9]/gi, "-")}`
+
+  return (
+    <div className="h-full flex flex-col items-center justify-center gap-4 p-4 bg-white">
+      {kind === "image" && (
+        <img src={url} alt={file.path} className="max-w-full max-h-[70%] object-contain border bg-gray-50" />
+      )}
+      {kind === "audio" && <audio src={url} controls />}
+      {kind === "video" && <video src={url} controls className="max-w-full max-h-[70%]" />}
+      {kind === "font" && (
+        <>
+          <style>{`@font-face { font-family: "${family}"; src: url("${url}"); }`}</style>
+          <div style={{ fontFamily: `"${family}"` }} className="text-center text-gray-900">
+            <div className="text-4xl">The quick brown fox jumps over the lazy dog</div>
+            <div className="text-xl mt-2">ABCDEFGHIJKLMNOPQRSTUVWXYZ abcdefghijklmnopqrstuvwxyz 0123456789</div>
+          </div>
+        </>
+      )}
+      <div className="text-sm text-gray-500">
+        Binary file · {mimeType} · {formatSize(size)}
+      </div>
+    </div>
+  )
 }
 
 interface CodePreviewProps {
   file: ProjectFile | null
 }
 
-export function CodePreview({ file }: CodePreviewProps) {
-  if (!file) {
+export function CodePreview({ file: selected }: CodePreviewProps) {
+  if (!selected) {
     return (
       <div className="h-full flex items-center justify-center text-gray-500">Select a file to view its content</div>
     )
   }
+  // Base64 content that does not decode has nothing to show
+  let file: ProjectFile
+  let size: number
+  try {
+    file = toTextFile(selected)
+    size = fileSize(file)
+  } catch (err) {
+    return (
+      <div className="h-full flex flex-col">
+        <div className="px-4 py-2 bg-gray-50 border-b text-sm font-medium text-gray-700">{selected.path}</div>
+        <div className="p-4 bg-red-50 border border-red-200 m-4 rounded text-sm text-red-700">
+          Cannot decode this file: {err instanceof Error ? err.message : String(err)}
+        </div>
+      </div>
+    )
+  }
 
   const getLanguage = (path: string) => {
     const ext = path.split(".").pop()
@@ -39,9 +92,13 @@ export function CodePreview({ file }: CodePreviewProps) {
     <div className="h-full flex flex-col">
       <div className="px-4 py-2 bg-gray-50 border-b text-sm font-medium text-gray-700">{file.path}</div>
       <div className="flex-1 overflow-auto">
-        <pre className="p-4 text-sm bg-white h-full overflow-auto">
-          <code className={`language-${getLanguage(file.path)}`}>{file.content}</code>
-        </pre>
+        {isBinaryFile(file) ? (
+          <BinaryPreview file={file} size={size} />
+        ) : (
+          <pre className="p-4 text-sm bg-white h-full overflow-auto">
+            <code className={`language-${getLanguage(file.path)}`}>{file.content}</code>
+          </pre>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,99 @@
+"use client"
+
+import { Code } from "lucide-react"
+import { useEffect, useState } from "react"
+import type { PreviewComponent } from "@/lib/preview/components"
+import type { PreviewOptions } from "@/lib/preview/document"
+
+interface ProjectFile {
+  path: string
+  content: string
+  type: string
+  encoding?: "utf8" | "base64"
+  mimeType?: string
+}
+
+interface ComponentGalleryProps {
+  files: ProjectFile[]
+  options: Omit<PreviewOptions, "entry">
+  /** Called with the module id of the file a card's component comes from. */
+  onOpenSource: (path: string) => void
+}
+
+interface GalleryItem {
+  component: PreviewComponent
+  html: string
+}
+
+/**
+ * Every exported component, each rendered alone in its own frame so one that
+ * throws shows its own error without taking the others down.
+ */
+export function ComponentGallery({ files, options, onOpenSource }: ComponentGalleryProps) {
+  const [items, setItems] = useState<GalleryItem[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Only the options that change what the cards render; the parent passes a new
+  // options object on every render
+  useEffect(() => {
+    let cancelled = false
+    setItems(null)
+    setError(null)
+    import("@/lib/preview/document")
+      .then(({ buildComponentDocuments }) => {
+        if (!cancelled) setItems(buildComponentDocuments(files, options))
+      })
+      .catch((err) => {
+        if (!cancelled) setError(`Failed to build components: ${err}`)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [files, options.includeUnimportedCss, options.fixtures, options.mocks])
+
+  if (error) {
+    return (
+      <div className="p-4 bg-red-50 border border-red-200 m-4 rounded">
+        <pre className="text-sm text-red-700 whitespace-pre-wrap">{error}</pre>
+      </div>
+    )
+  }
+  if (!items) {
+    return <div className="h-full flex items-center justify-center text-gray-500">Building components…</div>
+  }
+  if (items.length === 0) {
+    return <div className="h-full flex items-center justify-center text-gray-500">No exported components found</div>
+  }
+
+  return (
+    <div className="h-full overflow-auto bg-gray-50 p-4">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {items.map(({ component, html }) => (
+          <div key={`${component.path}#${component.export}`} className="bg-white border rounded-lg overflow-hidden">
+            <button
+              className="w-full flex items-center justify-between px-3 py-2 border-b text-left hover:bg-gray-50"
+              title="Show source"
+              onClick={() => onOpenSource(component.path)}
+            >
+              <span className="text-sm font-medium">
+                {component.name}
+                {component.export === "default" && <span className="ml-1 text-xs text-gray-500">(default)</span>}
+              </span>
+              <span className="flex items-center gap-1 text-xs text-gray-500">
+                <Code className="w-3 h-3" />
+                {component.path}
+              </span>
+            </button>
+            <iframe
+              title={`${component.name} (${component.path})`}
+              srcDoc={html}
+              sandbox="allow-scripts allow-same-origin"
+              loading="lazy"
+              className="w-full h-72 border-0"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
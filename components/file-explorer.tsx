@@ -1,12 +1,24 @@
 "use client"
 
-import { ChevronRight, ChevronDown, File, Folder } from "lucide-react"
+import { ChevronRight, ChevronDown, File, FileAudio, FileImage, FileType, FileVideo, Folder } from "lucide-react"
 import { useState } from "react"
+import { fileMimeType } from "@/lib/preview/file-types"
 
 interface ProjectFile {
   path: string
   content: string
   type: string
+  encoding?: "utf8" | "base64"
+  mimeType?: string
+}
+
+const fileIcon = (file: ProjectFile) => {
+  const kind = fileMimeType(file)?.split("/")[0]
+  if (kind === "image") return FileImage
+  if (kind === "audio") return FileAudio
+  if (kind === "video") return FileVideo
+  if (kind === "font" || fileMimeType(file) === "application/vnd.ms-fontobject") return FileType
+  return File
 }
 
 interface FileExplorerProps {
@@ -61,6 +73,7 @@ export function FileExplorer({ files, selectedFile, onFileSelect }: FileExplorer
 
       if (isFile) {
         const file = value as ProjectFile
+        const Icon = fileIcon(file)
         return (
           <div
             key={currentPath}
@@ -70,7 +83,7 @@ export function FileExplorer({ files, selectedFile, onFileSelect }: FileExplorer
             style={{ paddingLeft: `${depth * 16 + 8}px` }}
             onClick={() => onFileSelect(file)}
           >
-            <File className="w-4 h-4 mr-2" />
+            <Icon className="w-4 h-4 mr-2" />
             <span className="text-sm">{name}</span>
           </div>
         )
@@ -0,0 +1,40 @@
+"use client"
+
+import { ChevronDown, ChevronRight, Trash2 } from "lucide-react"
+import { Fragment, type ReactNode, useState } from "react"
+
+interface LogPanelProps<T extends { id: string }> {
+  /** Shown in the header, next to the toggle. */
+  title: ReactNode
+  /** Newest first. */
+  entries: T[]
+  renderRow: (entry: T) => ReactNode
+  onClear: () => void
+}
+
+/** A collapsible list of what the preview did, under the preview. */
+export function LogPanel<T extends { id: string }>({ title, entries, renderRow, onClear }: LogPanelProps<T>) {
+  const [open, setOpen] = useState(true)
+
+  return (
+    <div className="border-t bg-gray-50 text-sm">
+      <div className="flex items-center justify-between px-4 py-1">
+        <button className="flex items-center gap-1 font-medium text-gray-700" onClick={() => setOpen(!open)}>
+          {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          {title}
+        </button>
+        <button className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-800" onClick={onClear}>
+          <Trash2 className="w-3 h-3" />
+          Clear
+        </button>
+      </div>
+      {open && (
+        <div className="max-h-48 overflow-auto px-4 pb-2 space-y-1 font-mono text-xs">
+          {entries.map((entry) => (
+            <Fragment key={entry.id}>{renderRow(entry)}</Fragment>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
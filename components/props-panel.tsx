@@ -0,0 +1,224 @@
+"use client"
+
+import { RotateCcw, X } from "lucide-react"
+import { useEffect, useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import type { PreviewComponent } from "@/lib/preview/components"
+import { initialProps, type PropControl, type PropsFixture } from "@/lib/preview/prop-values"
+
+interface PropsPanelProps {
+  component: PreviewComponent
+  /** Fixtures sent for this component. */
+  fixtures: PropsFixture[]
+  values: Record<string, unknown>
+  onChange: (values: Record<string, unknown>) => void
+}
+
+const fixtureName = (fixture: PropsFixture, index: number) => fixture.name ?? `Fixture ${index + 1}`
+
+/** Edits JSON as text, applying it once it parses. */
+function JsonControl({ id, value, onChange }: { id: string; value: unknown; onChange: (value: unknown) => void }) {
+  const format = (v: unknown) => (v === undefined ? "" : JSON.stringify(v, null, 2))
+  const [text, setText] = useState(format(value))
+  const [invalid, setInvalid] = useState(false)
+
+  // Follows changes from elsewhere (a fixture, a reset) without reformatting what is being typed
+  useEffect(() => {
+    let typed: unknown
+    try {
+      typed = JSON.parse(text)
+    } catch {
+      typed = undefined
+    }
+    if (JSON.stringify(typed) !== JSON.stringify(value)) {
+      setText(format(value))
+      setInvalid(false)
+    }
+  }, [value])
+
+  return (
+    <Textarea
+      id={id}
+      value={text}
+      rows={3}
+      className={`font-mono text-xs ${invalid ? "border-red-400" : ""}`}
+      onChange={(e) => {
+        setText(e.target.value)
+        try {
+          onChange(JSON.parse(e.target.value))
+          setInvalid(false)
+        } catch {
+          setInvalid(true)
+        }
+      }}
+    />
+  )
+}
+
+function NumberControl({ id, value, onChange }: { id: string; value: unknown; onChange: (value: number) => void }) {
+  const number = typeof value === "number" ? value : 0
+  // The slider covers 0–100 unless the value is outside it
+  const max = Math.max(100, Math.abs(number) * 2)
+  const min = number < 0 ? -max : 0
+
+  return (
+    <div className="flex items-center gap-3">
+      <Slider
+        min={min}
+        max={max}
+        step={Number.isInteger(number) ? 1 : 0.1}
+        value={[number]}
+        onValueChange={([v]) => onChange(v)}
+        className="flex-1"
+      />
+      <Input
+        id={id}
+        type="number"
+        value={number}
+        onChange={(e) => onChange(e.target.value === "" ? 0 : Number(e.target.value))}
+        className="w-20 h-8"
+      />
+    </div>
+  )
+}
+
+function Control({
+  control,
+  value,
+  onChange,
+}: {
+  control: PropControl
+  value: unknown
+  onChange: (value: unknown) => void
+}) {
+  const id = `prop-${control.name}`
+  switch (control.kind) {
+    case "text":
+    case "node":
+      return (
+        <Input
+          id={id}
+          value={typeof value === "string" ? value : value === undefined ? "" : String(value)}
+          onChange={(e) => onChange(e.target.value)}
+          className="h-8"
+        />
+      )
+    case "number":
+      return <NumberControl id={id} value={value} onChange={onChange} />
+    case "boolean":
+      return <Switch id={id} checked={value === true} onCheckedChange={onChange} />
+    case "select":
+      return (
+        <Select value={typeof value === "string" ? value : ""} onValueChange={onChange}>
+          <SelectTrigger id={id} className="h-8">
+            <SelectValue placeholder="Not set" />
+          </SelectTrigger>
+          <SelectContent>
+            {control.options?.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )
+    case "function":
+      return <p className="text-xs text-gray-500">Calls are listed under the preview</p>
+    case "json":
+      return <JsonControl id={id} value={value} onChange={onChange} />
+  }
+}
+
+/**
+ * Controls for the props of the rendered component, generated from its
+ * TypeScript props type, with the fixtures sent for it to start from. Keyed
+ * by component, so the selected fixture resets when another is rendered.
+ */
+export function PropsPanel({ component, fixtures, values, onChange }: PropsPanelProps) {
+  // The first fixture is what the preview starts from
+  const [fixture, setFixture] = useState(fixtures.length > 0 ? "0" : "defaults")
+
+  const applyFixture = (value: string) => {
+    setFixture(value)
+    onChange(initialProps(component.props, value === "defaults" ? undefined : fixtures[Number(value)]))
+  }
+
+  const set = (name: string, value: unknown) => {
+    const next = { ...values }
+    if (value === undefined) delete next[name]
+    else next[name] = value
+    onChange(next)
+  }
+
+  return (
+    <div className="w-80 border-l bg-white flex flex-col text-sm">
+      <div className="flex items-center justify-between px-3 py-2 border-b bg-gray-50">
+        <span className="font-medium">Props</span>
+        <button
+          className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-800"
+          title="Reset to the selected fixture"
+          onClick={() => applyFixture(fixture)}
+        >
+          <RotateCcw className="w-3 h-3" />
+          Reset
+        </button>
+      </div>
+
+      {fixtures.length > 0 && (
+        <div className="px-3 py-2 border-b">
+          <Select value={fixture} onValueChange={applyFixture}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="defaults">Defaults</SelectItem>
+              {fixtures.map((f, index) => (
+                <SelectItem key={index} value={String(index)}>
+                  {fixtureName(f, index)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto p-3 space-y-4">
+        {component.props.length === 0 && (
+          <p className="text-xs text-gray-500">
+            No typed props found for {component.name}. Fixtures still apply as sent.
+          </p>
+        )}
+        {component.props.map((control) => (
+          <div key={control.name} className="space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor={`prop-${control.name}`} className="font-mono text-xs">
+                {control.name}
+                {!control.optional && <span className="text-red-500">*</span>}
+              </Label>
+              <span className="flex items-center gap-1 min-w-0">
+                <span className="truncate text-xs text-gray-400 font-mono" title={control.type}>
+                  {control.type}
+                </span>
+                {control.optional && control.name in values && (
+                  <button
+                    className="text-gray-400 hover:text-gray-700"
+                    title="Unset"
+                    onClick={() => set(control.name, undefined)}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </span>
+            </div>
+            <Control control={control} value={values[control.name]} onChange={(value) => set(control.name, value)} />
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
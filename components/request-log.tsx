@@ -0,0 +1,71 @@
+"use client"
+
+import { LogPanel } from "@/components/log-panel"
+
+export interface PreviewRequest {
+  id: string
+  method: string
+  url: string
+  /** Status of the response; null when no mock matched. */
+  status: number | null
+  /** Pattern of the project's API route that answered, if one did. */
+  route?: string
+  /** What went wrong in that route's handler: the error it threw, or that it never responded. */
+  error?: string
+  time: string
+}
+
+interface RequestLogProps {
+  /** Newest first. */
+  requests: PreviewRequest[]
+  onClear: () => void
+}
+
+const statusStyle = (status: number) =>
+  status >= 400
+    ? "bg-red-100 text-red-800"
+    : status >= 300
+      ? "bg-yellow-100 text-yellow-800"
+      : "bg-green-100 text-green-800"
+
+/** Requests the preview answered from the project's API routes or mocks, and those no mock matched. */
+export function RequestLog({ requests, onClear }: RequestLogProps) {
+  const unmocked = requests.filter((request) => request.status === null).length
+
+  return (
+    <LogPanel
+      title={
+        <>
+          Requests ({requests.length})
+          {unmocked > 0 && (
+            <span className="ml-1 px-1 rounded bg-red-100 text-red-800 text-xs">{unmocked} unmocked</span>
+          )}
+        </>
+      }
+      entries={requests}
+      onClear={onClear}
+      renderRow={(request) => (
+        <div
+          className={`border rounded px-2 py-1 ${
+            request.status === null || request.error ? "bg-red-50 border-red-200" : "bg-white"
+          }`}
+        >
+          <div className="flex items-center gap-2">
+            {request.status === null ? (
+              <span className="px-1 rounded bg-red-100 text-red-800">unmocked request</span>
+            ) : (
+              <span className={`px-1 rounded ${statusStyle(request.status)}`}>{request.status}</span>
+            )}
+            <span className="font-semibold">{request.method}</span>
+            <span className="truncate text-gray-600" title={request.url}>
+              {request.url}
+            </span>
+            {request.route && <span className="shrink-0 text-gray-400">→ {request.route}</span>}
+            <span className="ml-auto shrink-0 text-gray-400">{new Date(request.time).toLocaleTimeString()}</span>
+          </div>
+          {request.error && <div className="mt-1 text-red-700">{request.error}</div>}
+        </div>
+      )}
+    />
+  )
+}
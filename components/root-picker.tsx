@@ -0,0 +1,49 @@
+"use client"
+
+import type { PreviewComponent } from "@/lib/preview/components"
+
+interface RootPickerProps {
+  components: PreviewComponent[]
+  /** The component being rendered, if known. */
+  selected: PreviewComponent | null
+  onSelect: (component: PreviewComponent) => void
+}
+
+const keyOf = (component: PreviewComponent) => `${component.path}#${component.export}`
+
+export function RootPicker({ components, selected, onSelect }: RootPickerProps) {
+  // Grouped by file, keeping the order of preference between files
+  const groups = new Map<string, PreviewComponent[]>()
+  for (const component of components) {
+    groups.set(component.path, [...(groups.get(component.path) ?? []), component])
+  }
+
+  return (
+    <div className="flex items-center gap-2 px-4 py-2 border-b bg-gray-50 text-sm">
+      <label htmlFor="root-picker" className="text-gray-600">
+        Render
+      </label>
+      <select
+        id="root-picker"
+        className="border rounded px-2 py-1 bg-white text-sm max-w-md"
+        value={selected ? keyOf(selected) : ""}
+        onChange={(e) => {
+          const component = components.find((c) => keyOf(c) === e.target.value)
+          if (component) onSelect(component)
+        }}
+      >
+        {!selected && <option value="">Detected root</option>}
+        {[...groups].map(([path, group]) => (
+          <optgroup key={path} label={path}>
+            {group.map((component) => (
+              <option key={keyOf(component)} value={keyOf(component)}>
+                {component.export === "default" ? `${component.name} (default export)` : component.name}
+              </option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+      <span className="text-xs text-gray-500">{components.length} components detected</span>
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+import { useRef, useState } from "react"
+
+type Field = "name" | "email"
+
+export default function ContactForm() {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [values, setValues] = useState({ name: "", email: "" } as Record<Field, string>)
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const field = e.target.name as Field
+    setValues((prev) => ({ ...prev, [field]: e.target.value }))
+  }
+
+  const focusFirst = () => (inputRef.current as HTMLInputElement).focus()
+  const length = (values.name as unknown as string).length
+
+  return (
+    <form className="space-y-4 p-6" onSubmit={(e) => e.preventDefault()}>
+      <input ref={inputRef} name="name" value={values.name} onChange={handleChange} className="border p-2" />
+      <input name="email" value={values.email} onChange={handleChange} className="border p-2" />
+      <button type="button" onClick={focusFirst}>
+        Focus name ({length})
+      </button>
+    </form>
+  )
+}
@@ -0,0 +1,42 @@
+declare global {
+  interface Window {
+    analytics?: { track: (event: string) => void }
+  }
+}
+
+declare const __APP_VERSION__: string
+
+abstract class Shape {
+  abstract area(): number
+  describe(): string {
+    return `${this.constructor.name} with area ${this.area().toFixed(1)}`
+  }
+}
+
+class Circle extends Shape {
+  constructor(private readonly radius: number) {
+    super()
+  }
+  override area() {
+    return Math.PI * this.radius ** 2
+  }
+}
+
+function pick(value: string): string
+function pick(value: number): number
+function pick(value: string | number) {
+  return value
+}
+
+export type { Shape }
+
+export default function Shapes() {
+  window.analytics?.track("render")
+  const version = typeof __APP_VERSION__ === "undefined" ? "dev" : __APP_VERSION__
+  return (
+    <div className="p-6">
+      <p>{new Circle(pick(2)).describe()}</p>
+      <p>Version {pick(version)}</p>
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+import { useState } from "react"
+
+export enum Status {
+  Todo = "todo",
+  InProgress = "in-progress",
+  Done = "done",
+}
+
+enum Priority {
+  Low,
+  Medium,
+  High,
+}
+
+const labels: Record<Status, string> = {
+  [Status.Todo]: "To do",
+  [Status.InProgress]: "In progress",
+  [Status.Done]: "Done",
+}
+
+export default function TaskBoard() {
+  const [status, setStatus] = useState<Status>(Status.Todo)
+  const priority = Priority.High
+
+  return (
+    <div className="p-6">
+      <p>
+        {labels[status]} · priority {Priority[priority]}
+      </p>
+      {Object.values(Status).map((s) => (
+        <button key={s} onClick={() => setStatus(s)} className="mr-2 rounded border px-3 py-1">
+          {labels[s]}
+        </button>
+      ))}
+    </div>
+  )
+}
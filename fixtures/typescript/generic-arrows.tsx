@@ -0,0 +1,55 @@
+import { useMemo, useState } from "react"
+
+const sortBy = <T, K extends keyof T>(items: T[], key: K): T[] =>
+  [...items].sort((a, b) => (a[key] > b[key] ? 1 : a[key] < b[key] ? -1 : 0))
+
+const first = <T,>(items: readonly T[]): T | undefined => items[0]
+
+function groupBy<T>(items: T[], getKey: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  for (const item of items) {
+    const key = getKey(item)
+    groups.set(key, [...(groups.get(key) ?? []), item])
+  }
+  return groups
+}
+
+interface Product {
+  name: string
+  price: number
+  category: string
+}
+
+const products: Product[] = [
+  { name: "Keyboard", price: 89, category: "Accessories" },
+  { name: "Monitor", price: 299, category: "Displays" },
+  { name: "Mouse", price: 39, category: "Accessories" },
+]
+
+export default function ProductList() {
+  const [key, setKey] = useState<keyof Product>("name")
+  const sorted = useMemo(() => sortBy<Product, keyof Product>(products, key), [key])
+  const groups = groupBy(sorted, (p) => p.category)
+
+  return (
+    <div className="p-6">
+      <p>Cheapest first: {first(sortBy(products, "price"))?.name}</p>
+      <select value={key} onChange={(e) => setKey(e.target.value as keyof Product)}>
+        <option value="name">Name</option>
+        <option value="price">Price</option>
+      </select>
+      {[...groups.entries()].map(([category, items]) => (
+        <section key={category}>
+          <h3>{category}</h3>
+          <ul>
+            {items.map((p) => (
+              <li key={p.name}>
+                {p.name} — ${p.price}
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+    </div>
+  )
+}
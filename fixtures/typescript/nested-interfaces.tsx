@@ -0,0 +1,43 @@
+interface User {
+  id: string
+  profile: {
+    name: string
+    avatar?: {
+      url: string
+      size: { width: number; height: number }
+    }
+  }
+  settings: {
+    notifications: { email: boolean; push: boolean }
+  }
+}
+
+export interface UserCardProps extends React.HTMLAttributes<HTMLDivElement> {
+  user: User
+  onSelect?: (user: User) => void
+}
+
+const demoUser: User = {
+  id: "1",
+  profile: { name: "Ada Lovelace", avatar: { url: "/placeholder-user.jpg", size: { width: 48, height: 48 } } },
+  settings: { notifications: { email: true, push: false } },
+}
+
+function UserCard({ user, onSelect, ...rest }: UserCardProps) {
+  const avatar = user.profile.avatar
+  return (
+    <div {...rest} onClick={() => onSelect?.(user)} className="flex items-center gap-3 rounded border p-4">
+      {avatar && <img src={avatar.url} width={avatar.size.width} height={avatar.size.height} alt="" />}
+      <div>
+        <div className="font-medium">{user.profile.name}</div>
+        <div className="text-sm text-gray-500">
+          Email notifications {user.settings.notifications.email ? "on" : "off"}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default function App() {
+  return <UserCard user={demoUser} onSelect={(u) => console.log(u.id)} />
+}
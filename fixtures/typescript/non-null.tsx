@@ -0,0 +1,26 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+
+const items = new Map<string, number>([["apples", 3]])
+
+export default function Canvas() {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [ready, setReady] = useState(false)
+  let frame!: number
+
+  useEffect(() => {
+    const ctx = canvasRef.current!.getContext("2d")!
+    ctx.fillStyle = "#0ea5e9"
+    ctx.fillRect(0, 0, items.get("apples")! * 40, 40)
+    frame = requestAnimationFrame(() => setReady(true))
+    return () => cancelAnimationFrame(frame)
+  }, [])
+
+  return (
+    <div className="p-6">
+      <canvas ref={canvasRef} width={200} height={40} />
+      <p>{ready ? "Drawn" : "Drawing…"}</p>
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+function formatPrice(amount: number, currency?: string, locale: string = "en-US"): string {
+  return new Intl.NumberFormat(locale, { style: "currency", currency: currency ?? "USD" }).format(amount)
+}
+
+const greet = (name?: string, punctuation = "!") => `Hello, ${name ?? "there"}${punctuation}`
+
+class Cart {
+  private items: { name: string; price: number }[] = []
+
+  constructor(public readonly owner: string, private discount?: number) {}
+
+  add(name: string, price: number, quantity?: number): this {
+    for (let i = 0; i < (quantity ?? 1); i++) this.items.push({ name, price })
+    return this
+  }
+
+  total(): number {
+    const sum = this.items.reduce((acc, item) => acc + item.price, 0)
+    return sum * (1 - (this.discount ?? 0))
+  }
+}
+
+export default function Checkout() {
+  const cart = new Cart("Grace", 0.1).add("Coffee", 4.5, 2).add("Bagel", 3)
+  return (
+    <div className="p-6">
+      <h2>{greet(cart.owner)}</h2>
+      <p>Total: {formatPrice(cart.total())}</p>
+      <p>In euros: {formatPrice(cart.total(), "EUR", "de-DE")}</p>
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+type Theme = {
+  primary: string
+  secondary: string
+  radius: number
+}
+
+const theme = {
+  primary: "#2563eb",
+  secondary: "#64748b",
+  radius: 8,
+} satisfies Theme
+
+const routes = ["home", "pricing", "about"] as const satisfies readonly string[]
+
+export default function ThemePreview() {
+  return (
+    <nav style={{ display: "flex", gap: theme.radius, color: theme.primary }}>
+      {routes.map((route) => (
+        <a key={route} href={`#${route}`} style={{ borderRadius: theme.radius, color: theme.secondary }}>
+          {route}
+        </a>
+      ))}
+    </nav>
+  )
+}
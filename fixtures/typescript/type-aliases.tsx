@@ -0,0 +1,37 @@
+import { useReducer } from "react"
+
+type State = { count: number; step: number; history: { at: number; value: number }[] }
+
+type Action =
+  | { type: "increment" }
+  | { type: "decrement" }
+  | { type: "setStep"; step: number }
+
+type Handler<T extends Action["type"]> = (state: State, action: Extract<Action, { type: T }>) => State
+
+const initialState: State = { count: 0, step: 1, history: [] }
+
+const setStep: Handler<"setStep"> = (state, action) => ({ ...state, step: action.step })
+
+function reducer(state: State, action: Action): State {
+  switch (action.type) {
+    case "increment":
+      return { ...state, count: state.count + state.step, history: [...state.history, { at: Date.now(), value: state.count }] }
+    case "decrement":
+      return { ...state, count: state.count - state.step }
+    case "setStep":
+      return setStep(state, action)
+  }
+}
+
+export default function Counter() {
+  const [state, dispatch] = useReducer(reducer, initialState)
+  return (
+    <div className="flex items-center gap-2 p-6">
+      <button onClick={() => dispatch({ type: "decrement" })}>-</button>
+      <span>{state.count}</span>
+      <button onClick={() => dispatch({ type: "increment" })}>+</button>
+      <input type="number" value={state.step} onChange={(e) => dispatch({ type: "setStep", step: Number(e.target.value) })} />
+    </div>
+  )
+}
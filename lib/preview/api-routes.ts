@@ -0,0 +1,282 @@
+import { bySpecificity, isExcluded, isGroup, type RouteSegment, toSegment } from "@/lib/preview/app-router"
+import { HOST_ROUTES } from "@/lib/preview/fetch-mocks"
+
+// ---------------------------------------------------------------------------
+// API routes -----------------------------------------------------------------
+// ---------------------------------------------------------------------------
+// Projects ship their backend as route handlers, `app/**/route.ts` exporting a
+// function per HTTP method or `pages/api/**` default-exporting a Node-style
+// `(req, res)` handler, and their pages `fetch("/api/todos")`. There is no
+// server behind the preview, so API_RUNTIME answers those requests inside the
+// iframe by calling the handler itself. Modules are evaluated once, so state a
+// handler keeps in module scope lasts until the preview is rebuilt.
+
+export interface ApiRoute {
+  /** The URL pattern as the file tree spells it, such as `/api/todos/[id]`. */
+  pattern: string
+  segments: RouteSegment[]
+  /** Module id of the handler file. */
+  module: string
+  /** `app` route handlers export GET, POST, ...; `pages` ones default-export a single handler. */
+  kind: "app" | "pages"
+}
+
+const APP_ROUTE = /^(src\/)?app\/(.*\/)?route\.(ts|js)$/
+const PAGES_API = /^(src\/)?pages\/api\/.+\.(tsx|ts|jsx|js)$/
+
+/** Route handlers among a project's module ids, most specific first. */
+export function readApiRoutes(ids: string[]): ApiRoute[] {
+  const routes: ApiRoute[] = []
+  for (const id of ids) {
+    const dirs = id.split("/")
+    const root = dirs[0] === "src" ? 2 : 1
+    let inUrl: string[]
+    let kind: ApiRoute["kind"]
+    if (APP_ROUTE.test(id)) {
+      dirs.pop()
+      if (dirs.slice(root).some(isExcluded)) continue
+      inUrl = dirs.slice(root).filter((dir) => !isGroup(dir))
+      kind = "app"
+    } else if (PAGES_API.test(id)) {
+      // `pages/api/todos/index.ts` and `pages/api/todos.ts` both serve /api/todos
+      const name = dirs.pop()!.replace(/\.\w+$/, "")
+      inUrl = name === "index" ? dirs.slice(root) : [...dirs.slice(root), name]
+      kind = "pages"
+    } else {
+      continue
+    }
+    const pattern = "/" + inUrl.join("/")
+    if (routes.some((route) => route.pattern === pattern)) continue
+    routes.push({ pattern, segments: inUrl.map(toSegment), module: id, kind })
+  }
+  return routes.sort(bySpecificity)
+}
+
+// Runs inside the preview iframe after the router runtime, whose path
+// matching it uses. Wraps the fetch() the public files runtime patched and
+// answers XMLHttpRequests through the XHR runtime, ahead of any fetch mocks.
+export const API_RUNTIME = String.raw`
+(function () {
+  var preview = window.__preview;
+  var routes = preview.api;
+  var base = new URL(document.baseURI);
+
+  function esModule(exports) {
+    return Object.assign({ __esModule: true }, exports);
+  }
+
+  // ---- next/server --------------------------------------------------------
+
+  function json(body, init) {
+    init = init || {};
+    var headers = new Headers(init.headers);
+    if (!headers.has('content-type')) headers.set('content-type', 'application/json');
+    return new Response(JSON.stringify(body), { status: init.status, statusText: init.statusText, headers: headers });
+  }
+
+  function NextResponse(body, init) {
+    return new Response(body, init);
+  }
+  NextResponse.json = json;
+  NextResponse.redirect = function (url, init) {
+    var status = typeof init === 'number' ? init : (init && init.status) || 307;
+    return new Response(null, { status: status, headers: { location: String(url) } });
+  };
+  NextResponse.next = function () {
+    return new Response(null);
+  };
+
+  preview.provide('next/server', esModule({ NextResponse: NextResponse, NextRequest: Request }));
+
+  if (routes.length === 0) return;
+
+  // ---- Handlers -----------------------------------------------------------
+
+  var HOST_ROUTES = ${JSON.stringify(HOST_ROUTES)};
+  var NULL_BODY = [101, 204, 205, 304];
+  var METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+
+  function findRoute(url) {
+    if (url.origin !== base.origin) return null;
+    // The preview's own assets load from the host, even under a catch-all route
+    var isHostRoute = HOST_ROUTES.some(function (route) { return url.pathname.indexOf(route) === 0; });
+    if (isHostRoute) return null;
+    for (var i = 0; i < routes.length; i++) {
+      var params = preview.router.match(routes[i].segments, url.pathname);
+      if (params) return { route: routes[i], params: params };
+    }
+    return null;
+  }
+
+  // Next 15 passes params as a promise, Next 14 as a plain object
+  function nextProp(value) {
+    return Object.assign(Promise.resolve(value), value);
+  }
+
+  function appHandler(module, params, request) {
+    var handler = module[request.method] || (request.method === 'HEAD' ? module.GET : undefined);
+    if (typeof handler !== 'function') {
+      var allow = METHODS.filter(function (method) { return typeof module[method] === 'function'; }).join(', ');
+      var status = request.method === 'OPTIONS' ? 204 : 405;
+      return new Response(null, { status: status, headers: { allow: allow } });
+    }
+    request.nextUrl = new URL(request.url);
+    return Promise.resolve(handler(request, { params: nextProp(params) })).then(function (response) {
+      if (!(response instanceof Response)) throw new Error('No response is returned from route handler');
+      return response;
+    });
+  }
+
+  function readBody(text, type) {
+    if (!text) return null;
+    if (/json/.test(type)) {
+      try {
+        return JSON.parse(text);
+      } catch (error) {
+        return text;
+      }
+    }
+    if (/x-www-form-urlencoded/.test(type)) return Object.fromEntries(new URLSearchParams(text));
+    return text;
+  }
+
+  // Calls problem() when the handler returns without responding
+  function pagesHandler(module, params, request, problem) {
+    var handler = module.__esModule ? module.default : module;
+    var url = new URL(request.url);
+    var query = {};
+    url.searchParams.forEach(function (value, name) {
+      query[name] = name in query ? [].concat(query[name], value) : value;
+    });
+    Object.assign(query, params);
+    var headers = {};
+    request.headers.forEach(function (value, name) { headers[name] = value; });
+    var cookies = {};
+    (headers.cookie || '').split(/;\s*/).filter(Boolean).forEach(function (pair) {
+      var at = pair.indexOf('=');
+      cookies[pair.slice(0, at)] = decodeURIComponent(pair.slice(at + 1));
+    });
+
+    return request.text().then(function (text) {
+      var req = {
+        method: request.method,
+        url: url.pathname + url.search,
+        query: query,
+        headers: headers,
+        cookies: cookies,
+        body: readBody(text, headers['content-type'] || ''),
+      };
+
+      return new Promise(function (resolve, reject) {
+        var responseHeaders = new Headers();
+        var chunks = [];
+        var ended = false;
+        var res = {
+          statusCode: 200,
+          status: function (code) { res.statusCode = code; return res; },
+          setHeader: function (name, value) { responseHeaders.set(name, [].concat(value).join(', ')); return res; },
+          getHeader: function (name) { return responseHeaders.has(name) ? responseHeaders.get(name) : undefined; },
+          removeHeader: function (name) { responseHeaders.delete(name); return res; },
+          writeHead: function (code, fields) {
+            res.statusCode = code;
+            Object.keys(fields || {}).forEach(function (name) { res.setHeader(name, fields[name]); });
+            return res;
+          },
+          write: function (chunk) { chunks.push(chunk); return true; },
+          end: function (chunk) {
+            if (ended) return res;
+            ended = true;
+            if (chunk !== undefined && chunk !== null) chunks.push(chunk);
+            var body = NULL_BODY.indexOf(res.statusCode) === -1 ? new Blob(chunks.map(String)) : null;
+            resolve(new Response(body, { status: res.statusCode, headers: responseHeaders }));
+            return res;
+          },
+          json: function (body) {
+            if (!responseHeaders.has('content-type')) res.setHeader('content-type', 'application/json');
+            return res.end(JSON.stringify(body));
+          },
+          send: function (body) {
+            if (body && typeof body === 'object') return res.json(body);
+            return res.end(body);
+          },
+          redirect: function (status, location) {
+            if (typeof status === 'string') return res.redirect(307, status);
+            return res.status(status).setHeader('location', location).end();
+          },
+        };
+
+        Promise.resolve()
+          .then(function () { return handler(req, res); })
+          .then(function () {
+            if (ended) return;
+            problem('Resolved without sending a response');
+            res.end();
+          }, reject);
+      });
+    });
+  }
+
+  var session = Date.now().toString(36);
+  var requests = 0;
+
+  // The host page lists the request with those the project's mocks answer,
+  // along with what went wrong in the handler
+  function report(request, route, status, error) {
+    if (window.parent === window) return;
+    window.parent.postMessage({
+      type: 'preview:request',
+      request: {
+        id: 'api-' + session + '-' + ++requests,
+        method: request.method,
+        url: request.url,
+        status: status,
+        route: route.pattern,
+        error: error,
+        time: new Date().toISOString(),
+      },
+    }, '*');
+  }
+
+  function respond(matched, request) {
+    var warning;
+    return Promise.resolve()
+      .then(function () {
+        var module = preview.require(matched.route.module);
+        return matched.route.kind === 'app'
+          ? appHandler(module, matched.params, request)
+          : pagesHandler(module, matched.params, request, function (message) { warning = message; });
+      })
+      .then(
+        function (response) {
+          report(request, matched.route, response.status, warning);
+          return response;
+        },
+        function (error) {
+          report(request, matched.route, 500, String((error && error.message) || error));
+          return new Response('Internal Server Error', { status: 500, headers: { 'content-type': 'text/plain' } });
+        }
+      );
+  }
+
+  var fetch = window.fetch;
+  window.fetch = function (input, init) {
+    var matched = null;
+    try {
+      matched = findRoute(new URL(input instanceof Request ? input.url : String(input), base));
+    } catch (error) {
+      // Not a URL; fetch() rejects it as usual
+    }
+    if (!matched) return fetch.apply(this, arguments);
+    var target = input instanceof Request ? input : new URL(String(input), base).href;
+    return Promise.resolve().then(function () { return respond(matched, new Request(target, init)); });
+  };
+
+  preview.interceptXhr(function (method, url, headers, body) {
+    var matched = findRoute(url);
+    if (!matched) return undefined;
+    var init = { method: method, headers: headers };
+    if (method !== 'GET' && method !== 'HEAD' && body !== undefined && body !== null) init.body = body;
+    return Promise.resolve().then(function () { return respond(matched, new Request(url.href, init)); });
+  });
+})();
+`
@@ -0,0 +1,362 @@
+// ---------------------------------------------------------------------------
+// App Router -----------------------------------------------------------------
+// ---------------------------------------------------------------------------
+// Next.js projects are a tree of `page`, `layout`, `loading` and `not-found`
+// files under `app/` (or `src/app/`). The route table is read from the file
+// names here; inside the preview, ROUTER_RUNTIME matches the current path
+// against it and renders the page inside its layouts. The srcDoc iframe has no
+// URL of its own to navigate, so history is kept in memory and mirrored to the
+// host page's address bar.
+
+export interface RouteSegment {
+  kind: "static" | "dynamic" | "catchAll" | "optionalCatchAll"
+  /** The path segment, or the parameter name of a dynamic one. */
+  name: string
+}
+
+export interface AppRoute {
+  /** The URL pattern as the file tree spells it, such as `/blog/[slug]`. */
+  pattern: string
+  segments: RouteSegment[]
+  /** Module id of the page. */
+  page: string
+  /** The layout and loading modules of each directory from the root down. */
+  levels: { layout: string | null; loading: string | null }[]
+}
+
+export interface AppRoutes {
+  /** Most specific first, the order they are matched in. */
+  routes: AppRoute[]
+  /** The root `not-found` page, rendered inside the root layout. */
+  notFound: string | null
+}
+
+const APP_DIR = /^(src\/)?app\//
+
+const special = (name: string) => new RegExp(`^${name}\\.(tsx|ts|jsx|js)$`)
+
+const PAGE = special("page")
+const LAYOUT = special("layout")
+const LOADING = special("loading")
+const NOT_FOUND = special("not-found")
+
+/**
+ * Directories that add nothing to the URL, `(marketing)`, and ones that are
+ * not routes at all: private `_components` folders, `@slot` parallel routes and
+ * `(.)photo` intercepting routes.
+ */
+export const isGroup = (dir: string) => /^\(.*\)$/.test(dir) && !dir.startsWith("(.")
+export const isExcluded = (dir: string) => /^[_@]|^\(\./.test(dir)
+
+export const toSegment = (dir: string): RouteSegment => {
+  const optional = dir.match(/^\[\[\.\.\.(.+)\]\]$/)
+  if (optional) return { kind: "optionalCatchAll", name: optional[1] }
+  const catchAll = dir.match(/^\[\.\.\.(.+)\]$/)
+  if (catchAll) return { kind: "catchAll", name: catchAll[1] }
+  const dynamic = dir.match(/^\[(.+)\]$/)
+  return dynamic ? { kind: "dynamic", name: dynamic[1] } : { kind: "static", name: dir }
+}
+
+const RANK: Record<RouteSegment["kind"], number> = { static: 0, dynamic: 1, catchAll: 2, optionalCatchAll: 3 }
+
+/** Static segments beat dynamic ones, which beat catch-alls, segment by segment. */
+export const bySpecificity = (a: { segments: RouteSegment[] }, b: { segments: RouteSegment[] }): number => {
+  for (let i = 0; i < Math.min(a.segments.length, b.segments.length); i++) {
+    const difference = RANK[a.segments[i].kind] - RANK[b.segments[i].kind]
+    if (difference !== 0) return difference
+  }
+  const aOpen = a.segments.some((s) => s.kind !== "static" && s.kind !== "dynamic")
+  const bOpen = b.segments.some((s) => s.kind !== "static" && s.kind !== "dynamic")
+  return Number(aOpen) - Number(bOpen) || b.segments.length - a.segments.length
+}
+
+/** The App Router's routes among a project's module ids, or null when it has none. */
+export function readAppRoutes(ids: string[]): AppRoutes | null {
+  const find = (dir: string, file: RegExp) =>
+    ids.find((id) => id.startsWith(`${dir}/`) && file.test(id.slice(dir.length + 1))) ?? null
+
+  const routes: AppRoute[] = []
+  for (const page of ids.filter((id) => APP_DIR.test(id))) {
+    const dirs = page.split("/")
+    const file = dirs.pop()!
+    if (!PAGE.test(file)) continue
+    const root = dirs[0] === "src" ? 2 : 1
+    if (dirs.slice(root).some(isExcluded)) continue
+
+    const inUrl = dirs.slice(root).filter((dir) => !isGroup(dir))
+    const segments = inUrl.map(toSegment)
+    const levels = dirs.slice(root - 1).map((_, i) => {
+      const dir = dirs.slice(0, root + i).join("/")
+      return { layout: find(dir, LAYOUT), loading: find(dir, LOADING) }
+    })
+    const pattern = "/" + inUrl.join("/")
+    // Route groups can give two pages one URL; the first keeps it
+    if (routes.some((route) => route.pattern === pattern)) continue
+    routes.push({ pattern, segments, page, levels })
+  }
+  if (routes.length === 0) return null
+
+  const appDir = routes[0].page.startsWith("src/") ? "src/app" : "app"
+  return { routes: routes.sort(bySpecificity), notFound: find(appDir, NOT_FOUND) }
+}
+
+// Runs inside the preview iframe after the module runtime. Exposes the
+// in-memory history as `window.__preview.router`, which the next/navigation
+// shims use with or without a route table, and with one the component
+// rendering the current route as `window.__preview.AppRouter`.
+export const ROUTER_RUNTIME = String.raw`
+(function () {
+  var preview = window.__preview;
+  var table = preview.routes;
+
+  var history = [preview.path || '/'];
+  var index = 0;
+  var listeners = [];
+
+  function current() {
+    var url = new URL(history[index], 'http://preview.local');
+    return { pathname: url.pathname, search: url.search, hash: url.hash };
+  }
+
+  // The host page shows the location in its address bar
+  function report() {
+    if (window.parent === window) return;
+    var location = current();
+    window.parent.postMessage({
+      type: 'preview:location',
+      href: location.pathname + location.search + location.hash,
+      canGoBack: index > 0,
+      canGoForward: index < history.length - 1,
+    }, '*');
+  }
+
+  function notify() {
+    listeners.slice().forEach(function (listener) { listener(current()); });
+    report();
+  }
+
+  // Resolves an href against the current location; null for other sites
+  function resolve(href) {
+    var location = current();
+    var url = new URL(String(href), 'http://preview.local' + location.pathname + location.search);
+    if (url.origin !== 'http://preview.local') return null;
+    return url.pathname + url.search + url.hash;
+  }
+
+  function navigate(href, replace) {
+    var target = resolve(href);
+    if (target === null) {
+      window.open(String(href), '_blank', 'noopener');
+      return;
+    }
+    if (replace) history[index] = target;
+    else {
+      history = history.slice(0, index + 1).concat(target);
+      index = history.length - 1;
+    }
+    notify();
+    if (!/#/.test(target)) window.scrollTo(0, 0);
+  }
+
+  function go(delta) {
+    var next = index + delta;
+    if (next < 0 || next >= history.length) return;
+    index = next;
+    notify();
+  }
+
+  preview.router = {
+    routes: table ? table.routes : [],
+    location: current,
+    // Parameters of a path matching a route's segments, or null
+    match: function (segments, pathname) {
+      return matchSegments(segments, pathname.split('/').filter(Boolean).map(decodeURIComponent));
+    },
+    // Parameters of the dynamic segments in the current path
+    params: function () {
+      var matched = table && match(current().pathname);
+      return matched ? matched.params : {};
+    },
+    push: function (href) { navigate(href, false); },
+    replace: function (href) { navigate(href, true); },
+    back: function () { go(-1); },
+    forward: function () { go(1); },
+    refresh: notify,
+    subscribe: function (listener) {
+      listeners.push(listener);
+      return function () { listeners = listeners.filter(function (l) { return l !== listener; }); };
+    },
+  };
+
+  window.addEventListener('message', function (event) {
+    if (event.source !== window.parent || !event.data) return;
+    if (event.data.type === 'preview:navigate') navigate(event.data.href, false);
+    if (event.data.type === 'preview:history') go(event.data.delta);
+  });
+
+  // Plain links to the app's own pages navigate the preview, not the iframe
+  document.addEventListener('click', function (event) {
+    var anchor = event.target instanceof Element ? event.target.closest('a[href]') : null;
+    if (!anchor || event.defaultPrevented || event.button !== 0) return;
+    if (event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) return;
+    var href = anchor.getAttribute('href');
+    if ((anchor.target && anchor.target !== '_self') || anchor.hasAttribute('download')) return;
+    if (/^([a-z][a-z0-9+.-]*:|\/\/|#)/i.test(href)) return;
+    event.preventDefault();
+    navigate(href, false);
+  });
+
+  if (!table) return;
+
+  // Root layouts render <html> and <body>, which cannot go inside #root. They
+  // become a fragment and a div keeping the body's classes.
+  var createElement = React.createElement;
+  React.createElement = function (type, props) {
+    if (type === 'html') return createElement.apply(null, [React.Fragment, null].concat([].slice.call(arguments, 2)));
+    if (type === 'head') return null;
+    if (type === 'body') {
+      return createElement.apply(null, ['div', Object.assign({}, props, { 'data-preview-body': '' })].concat(
+        [].slice.call(arguments, 2)
+      ));
+    }
+    return createElement.apply(null, arguments);
+  };
+
+  function match(pathname) {
+    var parts = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    for (var r = 0; r < table.routes.length; r++) {
+      var params = matchSegments(table.routes[r].segments, parts);
+      if (params) return { route: table.routes[r], params: params };
+    }
+    return null;
+  }
+
+  function matchSegments(segments, parts) {
+    var params = {};
+    for (var i = 0; i < segments.length; i++) {
+      var segment = segments[i];
+      if (segment.kind === 'catchAll' || segment.kind === 'optionalCatchAll') {
+        var rest = parts.slice(i);
+        if (rest.length === 0 && segment.kind === 'catchAll') return null;
+        if (rest.length > 0) params[segment.name] = rest;
+        return params;
+      }
+      if (i >= parts.length) return null;
+      if (segment.kind === 'dynamic') params[segment.name] = parts[i];
+      else if (segment.name !== parts[i]) return null;
+    }
+    return parts.length === segments.length ? params : null;
+  }
+
+  function component(id) {
+    var exports = preview.require(id);
+    return exports.__esModule ? exports.default : exports;
+  }
+
+  // Next 15 passes params and searchParams as promises, Next 14 as plain
+  // objects; these work either way
+  function nextProp(value) {
+    return Object.assign(Promise.resolve(value), value);
+  }
+
+  function searchParams(search) {
+    var values = {};
+    new URLSearchParams(search).forEach(function (value, key) {
+      values[key] = key in values ? [].concat(values[key], value) : value;
+    });
+    return values;
+  }
+
+  function NotFound() {
+    return createElement('div', { style: { fontFamily: 'system-ui', padding: 48, textAlign: 'center' } },
+      createElement('h1', { style: { fontSize: 24, fontWeight: 600 } }, '404'),
+      createElement('p', null, 'This page could not be found.')
+    );
+  }
+
+  // notFound() and redirect() from next/navigation throw errors carrying these
+  function isNotFound(error) {
+    return Boolean(error && error.digest === 'NEXT_NOT_FOUND');
+  }
+
+  function redirectTarget(error) {
+    return error && typeof error.digest === 'string' && error.digest.indexOf('NEXT_REDIRECT;') === 0
+      ? error.digest.slice('NEXT_REDIRECT;'.length)
+      : null;
+  }
+
+  function renderNotFound() {
+    return createElement(table.notFound ? component(table.notFound) : NotFound);
+  }
+
+  // Layouts stay mounted across navigations; a page that threw is replaced by
+  // the next one
+  class RouteErrorBoundary extends React.Component {
+    constructor(props) {
+      super(props);
+      this.state = { error: null };
+    }
+
+    static getDerivedStateFromError(error) {
+      return { error: error };
+    }
+
+    componentDidCatch(error, errorInfo) {
+      var target = redirectTarget(error);
+      if (target !== null) preview.router.replace(target);
+      else if (!isNotFound(error)) console.error('React Error Boundary:', error, errorInfo);
+    }
+
+    render() {
+      if (!this.state.error) return this.props.children;
+      var error = this.state.error;
+      if (isNotFound(error)) return renderNotFound();
+      if (redirectTarget(error) !== null) return null;
+      return createElement('div', { className: 'error-display' },
+        createElement('strong', null, 'React Component Error:'), '\n',
+        error && error.stack ? error.stack : String(error),
+        '\n\n', createElement('strong', null, 'Route:'), ' ' + this.props.pathname
+      );
+    }
+  }
+
+  function renderRoute(location) {
+    var matched = match(location.pathname);
+    if (!matched) {
+      var rootLayout = table.routes[0] && table.routes[0].levels[0].layout;
+      var notFound = renderNotFound();
+      return rootLayout ? createElement(component(rootLayout), { params: nextProp({}) }, notFound) : notFound;
+    }
+
+    var params = nextProp(matched.params);
+    var page = createElement(component(matched.route.page), {
+      params: params,
+      searchParams: nextProp(searchParams(location.search)),
+    });
+    var element = createElement(
+      RouteErrorBoundary,
+      { key: location.pathname + location.search, pathname: location.pathname },
+      page
+    );
+    for (var i = matched.route.levels.length - 1; i >= 0; i--) {
+      var level = matched.route.levels[i];
+      if (level.loading) {
+        element = createElement(React.Suspense, { fallback: createElement(component(level.loading)) }, element);
+      }
+      if (level.layout) element = createElement(component(level.layout), { params: params }, element);
+    }
+    return element;
+  }
+
+  preview.AppRouter = function AppRouter() {
+    var state = React.useState(current);
+    var location = state[0];
+    var setLocation = state[1];
+    React.useEffect(function () {
+      report();
+      return preview.router.subscribe(setLocation);
+    }, []);
+    return renderRoute(location);
+  };
+})();
+`
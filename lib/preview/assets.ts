@@ -0,0 +1,25 @@
+import ts from "typescript"
+import { toTranspileError, TranspileError } from "@/lib/preview/transpile"
+
+// ---------------------------------------------------------------------------
+// Static assets --------------------------------------------------------------
+// ---------------------------------------------------------------------------
+// Imports of non-code files behave as they do with a bundler: JSON evaluates to
+// its parsed value and images, fonts and media to a URL (an object URL created
+// inside the preview). SVGs additionally export a `ReactComponent`.
+
+export const isJsonFile = (path: string): boolean => path.endsWith(".json")
+
+/**
+ * Module code exporting a JSON file's value. On invalid JSON, TypeScript's JSON
+ * parser locates the error for the `TranspileError` thrown.
+ */
+export function jsonModule(id: string, content: string): string {
+  try {
+    return `module.exports = ${JSON.stringify(JSON.parse(content))};`
+  } catch (err) {
+    const { error } = ts.parseConfigFileTextToJson(id, content)
+    if (error?.start !== undefined) throw toTranspileError(id, error)
+    throw new TranspileError(id, 1, 1, err instanceof Error ? err.message : String(err))
+  }
+}
@@ -0,0 +1,288 @@
+import ts from "typescript"
+import { readApiRoutes } from "@/lib/preview/api-routes"
+import { rankEntries } from "@/lib/preview/entries"
+import { isSourceFile, type PreviewModule } from "@/lib/preview/modules"
+import { readPropControls, type TypeLookup } from "@/lib/preview/prop-types"
+import type { PropControl } from "@/lib/preview/prop-values"
+import { toModuleId } from "@/lib/preview/module-id"
+
+// ---------------------------------------------------------------------------
+// Component detection --------------------------------------------------------
+// ---------------------------------------------------------------------------
+// Root candidates come from what files export, read from their syntax before
+// anything runs: a default export of any shape (anonymous arrow functions
+// included) and capitalized named exports that are functions, classes or
+// `memo`/`forwardRef` wrappers. A component an entry file mounts itself with
+// `createRoot(...).render(<App />)` comes first.
+
+interface ProjectFile {
+  path: string
+  content: string
+  type: string
+}
+
+export interface PreviewComponent {
+  /** Module id of the file exporting the component. */
+  path: string
+  export: string
+  /** Display name: the function's name, or one made from the file name. */
+  name: string
+  /** Controls for its props, read from their TypeScript types. */
+  props: PropControl[]
+}
+
+/** Preferred among several exports of one file, after the default export. */
+const PREFERRED_NAMES = ["App", "HomePage", "Home", "Page", "Main", "Root", "Index", "Dashboard", "Layout"]
+
+/** Calls whose result is a component when given one. */
+const WRAPPERS = /(^|\.)(memo|forwardRef|lazy|observer|styled)$/
+
+const isComponentName = (name: string): boolean => /^[A-Z]/.test(name)
+
+const hasModifier = (node: ts.Node, kind: ts.SyntaxKind): boolean =>
+  (ts.canHaveModifiers(node) && ts.getModifiers(node)?.some((m) => m.kind === kind)) ?? false
+
+/** `app/hero-section.tsx` -> `HeroSection`; `app/page.tsx` -> `Page`. */
+const nameFromPath = (path: string): string => {
+  const segments = path.replace(/\.[^/.]+$/, "").split("/")
+  const file = segments.pop()!
+  const base = file === "index" && segments.length > 0 ? segments.pop()! : file
+  return base.replace(/(^|[-_.\s]+)(\w)/g, (_, __, c: string) => c.toUpperCase())
+}
+
+const unwrap = (node: ts.Expression): ts.Expression =>
+  ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node)
+    ? unwrap(node.expression)
+    : node
+
+const looksLikeComponent = (node: ts.Expression): boolean => {
+  const expression = unwrap(node)
+  if (ts.isArrowFunction(expression) || ts.isFunctionExpression(expression) || ts.isClassExpression(expression)) {
+    return true
+  }
+  return ts.isCallExpression(expression) && WRAPPERS.test(expression.expression.getText())
+}
+
+const parse = (path: string, content: string): ts.SourceFile =>
+  ts.createSourceFile(
+    path,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    path.endsWith(".ts") ? ts.ScriptKind.TS : ts.ScriptKind.TSX,
+  )
+
+/** Exports of a file that look like components, in source order. */
+function readComponentExports(path: string, source: ts.SourceFile, lookup: TypeLookup): PreviewComponent[] {
+  const found: PreviewComponent[] = []
+  const add = (exported: string, name: string | undefined, node: ts.Node) =>
+    found.push({
+      path,
+      export: exported,
+      name: name || nameFromPath(path),
+      props: readPropControls(node, source, lookup),
+    })
+
+  for (const statement of source.statements) {
+    const exported = hasModifier(statement, ts.SyntaxKind.ExportKeyword)
+    const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword)
+
+    if (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) {
+      const name = statement.name?.text
+      if (exported && isDefault) add("default", name, statement)
+      else if (exported && name && isComponentName(name)) add(name, name, statement)
+    } else if (ts.isVariableStatement(statement) && exported) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(declaration.name) || !declaration.initializer) continue
+        const name = declaration.name.text
+        if (isComponentName(name) && looksLikeComponent(declaration.initializer)) add(name, name, declaration)
+      }
+    } else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      const expression = unwrap(statement.expression)
+      if (ts.isIdentifier(expression) && isComponentName(expression.text)) add("default", expression.text, expression)
+      else if (looksLikeComponent(expression)) {
+        const named = ts.isFunctionExpression(expression) || ts.isClassExpression(expression)
+        add("default", named ? expression.name?.text : undefined, expression)
+      }
+    } else if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier && !statement.isTypeOnly) {
+      const clause = statement.exportClause
+      const elements = clause && ts.isNamedExports(clause) ? clause.elements : []
+      for (const element of elements) {
+        const localNode = element.propertyName ?? element.name
+        const local = localNode.getText()
+        const name = element.name.getText()
+        if (element.isTypeOnly) continue
+        if (name === "default") add("default", isComponentName(local) ? local : undefined, localNode)
+        else if (isComponentName(name)) add(name, name, localNode)
+      }
+    }
+  }
+  return found
+}
+
+/** Local name -> import specifier and export, for a file's default and named imports. */
+function readImports(source: ts.SourceFile): Map<string, { specifier: string; export: string }> {
+  const bindings = new Map<string, { specifier: string; export: string }>()
+  for (const statement of source.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue
+    const specifier = statement.moduleSpecifier.text
+    const clause = statement.importClause
+    if (clause?.name) bindings.set(clause.name.text, { specifier, export: "default" })
+    if (clause?.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+      for (const element of clause.namedBindings.elements) {
+        bindings.set(element.name.text, { specifier, export: (element.propertyName ?? element.name).text })
+      }
+    }
+  }
+  return bindings
+}
+
+const findTypeDeclaration = (source: ts.SourceFile, name: string) =>
+  source.statements.find(
+    (s): s is ts.InterfaceDeclaration | ts.TypeAliasDeclaration =>
+      (ts.isInterfaceDeclaration(s) || ts.isTypeAliasDeclaration(s)) && s.name.text === name,
+  )
+
+/**
+ * Imported components a file mounts itself, as in
+ * `createRoot(el).render(<StrictMode><App /></StrictMode>)`: the import
+ * specifier and export of each JSX tag rendered, outermost first.
+ */
+function readRenderedImports(source: ts.SourceFile): { specifier: string; export: string }[] {
+  const bindings = readImports(source)
+
+  const rendered: { specifier: string; export: string }[] = []
+  const visitJsx = (node: ts.Node) => {
+    if (ts.isJsxSelfClosingElement(node) || ts.isJsxOpeningElement(node)) {
+      const binding = ts.isIdentifier(node.tagName) ? bindings.get(node.tagName.text) : undefined
+      if (binding) rendered.push(binding)
+    }
+    ts.forEachChild(node, visitJsx)
+  }
+  const visit = (node: ts.Node) => {
+    const isRender =
+      ts.isCallExpression(node) &&
+      ((ts.isPropertyAccessExpression(node.expression) && node.expression.name.text === "render") ||
+        (ts.isIdentifier(node.expression) && node.expression.text === "render"))
+    if (isRender && node.arguments.length > 0) visitJsx(node.arguments[0])
+    else ts.forEachChild(node, visit)
+  }
+  visit(source)
+  return rendered
+}
+
+/**
+ * Whether a file mounts React itself: it calls `createRoot` or `hydrateRoot`,
+ * or `render` from react-dom.
+ */
+function isBootstrap(source: ts.SourceFile): boolean {
+  const reactDom = new Set<string>()
+  for (const statement of source.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue
+    if (!/^react-dom(\/client)?$/.test(statement.moduleSpecifier.text)) continue
+    const clause = statement.importClause
+    if (clause?.name) reactDom.add(clause.name.text)
+    if (clause?.namedBindings) {
+      if (ts.isNamespaceImport(clause.namedBindings)) reactDom.add(clause.namedBindings.name.text)
+      else clause.namedBindings.elements.forEach((element) => reactDom.add(element.name.text))
+    }
+  }
+
+  const visit = (node: ts.Node): boolean => {
+    if (ts.isCallExpression(node)) {
+      const callee = node.expression
+      const name = ts.isIdentifier(callee) ? callee.text : ts.isPropertyAccessExpression(callee) ? callee.name.text : ""
+      if (name === "createRoot" || name === "hydrateRoot") return true
+      if (name === "render" && ts.isIdentifier(callee) && reactDom.has(callee.text)) return true
+      if (
+        name === "render" &&
+        ts.isPropertyAccessExpression(callee) &&
+        ts.isIdentifier(callee.expression) &&
+        (reactDom.has(callee.expression.text) || callee.expression.text === "ReactDOM")
+      ) {
+        return true
+      }
+    }
+    return ts.forEachChild(node, visit) ?? false
+  }
+  return visit(source)
+}
+
+/** Conventional names for a self-mounting entry file, most likely first. */
+const BOOTSTRAP_NAMES = /(^|\/)(main|index)\.[jt]sx?$/
+
+/**
+ * The module that mounts the app itself, as Vite's `src/main.tsx` and Create
+ * React App's `src/index.tsx` do: the first such module `index.html` loads,
+ * otherwise one named main or index, otherwise any.
+ */
+export function detectBootstrap(
+  files: ProjectFile[],
+  modules: Record<string, PreviewModule>,
+  scripts: string[],
+): string | null {
+  const bootstraps = files
+    .map((f) => ({ id: toModuleId(f.path), content: f.content }))
+    .filter(({ id }) => isSourceFile(id) && id in modules)
+    .filter(({ id, content }) => /\b(createRoot|hydrateRoot|render)\b/.test(content) && isBootstrap(parse(id, content)))
+    .map(({ id }) => id)
+  const rank = (id: string) =>
+    scripts.includes(id) ? 0 : BOOTSTRAP_NAMES.test(id) ? (id.includes("main.") ? 1 : 2) : 3
+  return bootstraps.sort((a, b) => rank(a) - rank(b) || a.split("/").length - b.split("/").length)[0] ?? null
+}
+
+const preference = (component: PreviewComponent): number => {
+  if (component.export === "default") return 0
+  const index = PREFERRED_NAMES.indexOf(component.export)
+  return index === -1 ? PREFERRED_NAMES.length + 1 : index + 1
+}
+
+/**
+ * Every component a project's files export, best root candidate first:
+ * components mounted by an entry file, then files in entry order with each
+ * file's default export ahead of its named ones.
+ */
+export function detectComponents(files: ProjectFile[], modules: Record<string, PreviewModule>): PreviewComponent[] {
+  // Route handlers export GET, POST, ... which are capitalized but no components
+  const handlers = new Set(readApiRoutes(Object.keys(modules)).map((route) => route.module))
+  const sources = new Map(
+    files
+      .map((f) => ({ id: toModuleId(f.path), content: f.content }))
+      .filter(({ id }) => isSourceFile(id) && id in modules && !handlers.has(id))
+      .map(({ id, content }) => [id, parse(id, content)]),
+  )
+  const ids = rankEntries([...sources.keys()])
+
+  // Props types may live in the component's file or be imported from another
+  const lookup: TypeLookup = (name, source) => {
+    const local = findTypeDeclaration(source, name)
+    if (local) return { declaration: local, source }
+    const binding = readImports(source).get(name)
+    const target = binding && sources.get(modules[source.fileName]?.deps[binding.specifier])
+    const declaration = target && findTypeDeclaration(target, binding.export)
+    return declaration ? { declaration, source: target } : null
+  }
+  const exportsById = new Map(ids.map((id) => [id, readComponentExports(id, sources.get(id)!, lookup)]))
+
+  const mounted = ids.flatMap((id) =>
+    readRenderedImports(sources.get(id)!).flatMap((binding) => {
+      const target = modules[id].deps[binding.specifier]
+      return exportsById.get(target)?.filter((c) => c.export === binding.export) ?? []
+    }),
+  )
+  const exported = ids.flatMap((id) =>
+    exportsById
+      .get(id)!
+      .map((component, index) => ({ component, index }))
+      .sort((a, b) => preference(a.component) - preference(b.component) || a.index - b.index)
+      .map(({ component }) => component),
+  )
+
+  const seen = new Set<string>()
+  return [...mounted, ...exported].filter((c) => {
+    const key = `${c.path}#${c.export}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
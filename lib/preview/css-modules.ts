@@ -0,0 +1,110 @@
+import postcss, { CssSyntaxError, type AtRule, type Container, type Declaration, type Rule } from "postcss"
+import selectorParser, { type Node as SelectorNode } from "postcss-selector-parser"
+import { TranspileError } from "@/lib/preview/transpile"
+
+// ---------------------------------------------------------------------------
+// CSS Modules ----------------------------------------------------------------
+// ---------------------------------------------------------------------------
+// `*.module.css` (and `.module.scss`) files get the same treatment as in a Next.js app: class names
+// and keyframes are renamed to `<file>_<name>__<hash>` unless wrapped in
+// `:global(...)`, and the importer receives the map of original to scoped
+// names. `composes` works within a file and with `from global`.
+
+export const isCssModule = (path: string): boolean => /\.module\.(css|s[ac]ss)$/.test(path)
+
+export interface CssModule {
+  /** The stylesheet with every local name replaced by its scoped name. */
+  css: string
+  /** Original class name -> scoped class name(s), as seen by the importer. */
+  classes: Record<string, string>
+}
+
+/** FNV-1a, shortened; only needs to keep two files' names apart. */
+const hash = (value: string): string => {
+  let h = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return (h >>> 0).toString(36).slice(0, 5)
+}
+
+const isKeyframes = (node: Container | undefined): boolean =>
+  node?.type === "atrule" && /keyframes$/.test((node as AtRule).name)
+
+const isGlobal = (node: SelectorNode): boolean => {
+  for (let parent = node.parent; parent; parent = parent.parent) {
+    if (parent.type === "pseudo" && parent.value === ":global") return true
+  }
+  return false
+}
+
+/**
+ * Scopes a CSS Module's class names and keyframes. Throws a `TranspileError`
+ * for invalid CSS and unsupported `composes`.
+ */
+export function compileCssModule(id: string, source: string): CssModule {
+  try {
+    return scopeCssModule(id, source)
+  } catch (err) {
+    if (err instanceof CssSyntaxError) throw new TranspileError(id, err.line ?? 1, err.column ?? 1, err.reason)
+    throw err
+  }
+}
+
+function scopeCssModule(id: string, source: string): CssModule {
+  const root = postcss.parse(source)
+  const name = id.split("/").pop()!.replace(/\.module\.(css|s[ac]ss)$/, "")
+  const suffix = hash(id)
+  const scope = (local: string) => `${name}_${local}__${suffix}`
+
+  const scoped: Record<string, string> = {}
+  const composed: Record<string, string[]> = {}
+  const local = (className: string) => (scoped[className] ??= scope(className))
+
+  const keyframes: Record<string, string> = {}
+  root.walkAtRules(/keyframes$/, (rule) => {
+    const global = rule.params.match(/^:global\((.+)\)$/)
+    rule.params = global ? global[1] : (keyframes[rule.params] = scope(rule.params))
+  })
+
+  const scopeSelectors = selectorParser((selectors) => {
+    selectors.walkClasses((node) => {
+      if (!isGlobal(node)) node.value = local(node.value)
+    })
+    const wrappers: selectorParser.Pseudo[] = []
+    selectors.walkPseudos((node) => {
+      if (node.value === ":global" || node.value === ":local") wrappers.push(node)
+    })
+    for (const wrapper of wrappers.reverse()) {
+      wrapper.replaceWith(...wrapper.nodes.flatMap((selector) => selector.nodes))
+    }
+  })
+
+  const compose = (rule: Rule, decl: Declaration) => {
+    const owner = rule.selector.match(/^\.([\w-]+)$/)?.[1]
+    if (!owner) throw decl.error("composes can only be used in a rule with a single class selector")
+    const [names, from] = decl.value.split(/\s+from\s+/)
+    if (from && from !== "global") throw decl.error("composes from another file is not supported in the preview")
+    const classNames = names.trim().split(/\s+/)
+    composed[owner] = [...(composed[owner] ?? []), ...(from ? classNames : classNames.map(local))]
+    decl.remove()
+  }
+
+  root.walkRules((rule) => {
+    if (isKeyframes(rule.parent)) return
+    rule.each((node) => {
+      if (node.type === "decl" && node.prop === "composes") compose(rule, node)
+    })
+    rule.selector = scopeSelectors.processSync(rule.selector)
+  })
+
+  root.walkDecls(/^animation(-name)?$/, (decl) => {
+    decl.value = decl.value.replace(/[\w-]+/g, (word) => keyframes[word] ?? word)
+  })
+
+  const classes = Object.fromEntries(
+    Object.entries(scoped).map(([className, value]) => [className, [value, ...(composed[className] ?? [])].join(" ")]),
+  )
+  return { css: root.toString(), classes }
+}
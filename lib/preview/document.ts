@@ -0,0 +1,422 @@
+import { API_RUNTIME, readApiRoutes } from "@/lib/preview/api-routes"
+import { readAppRoutes, ROUTER_RUNTIME } from "@/lib/preview/app-router"
+import { detectBootstrap, detectComponents, type PreviewComponent } from "@/lib/preview/components"
+import { isCssModule } from "@/lib/preview/css-modules"
+import { rankEntries } from "@/lib/preview/entries"
+import { type FetchMock, MOCKS_RUNTIME } from "@/lib/preview/fetch-mocks"
+import { toTextFile } from "@/lib/preview/file-types"
+import { readIndexHtml } from "@/lib/preview/index-html"
+import { toModuleId } from "@/lib/preview/module-id"
+import { buildModules, isSourceFile, isStylesheet } from "@/lib/preview/modules"
+import { NEXT_RUNTIME } from "@/lib/preview/next-shims"
+import { fixturesFor, initialProps, type PropsFixture } from "@/lib/preview/prop-values"
+import { PUBLIC_RUNTIME, readPublicFiles } from "@/lib/preview/public-files"
+import { SERVER_RUNTIME } from "@/lib/preview/server-components"
+import { selectReactRuntime, type ReactRuntime } from "@/lib/preview/react-version"
+import { MODULE_RUNTIME } from "@/lib/preview/runtime"
+import { readTailwindInput, TAILWIND_RUNTIME } from "@/lib/preview/tailwind"
+import { importMap, vendorUrl } from "@/lib/preview/vendor"
+import { XHR_RUNTIME } from "@/lib/preview/xhr"
+
+// ---------------------------------------------------------------------------
+// Preview document -----------------------------------------------------------
+// ---------------------------------------------------------------------------
+interface ProjectFile {
+  path: string
+  content: string
+  type: string
+  encoding?: "utf8" | "base64"
+  mimeType?: string
+}
+
+/** Serializes a value for an inline `<script type="application/json">` block. */
+const toScriptJson = (value: unknown): string => JSON.stringify(value).replace(/</g, "\\u003c")
+
+export interface PreviewEntry {
+  path: string
+  /** Export to render; `default` when not given. */
+  export?: string
+}
+
+export interface PreviewOptions {
+  /** Also inject stylesheets no module imports, as older payloads expect. */
+  includeUnimportedCss?: boolean
+  /** What to render, as declared by the sender, instead of guessing. */
+  entry?: PreviewEntry
+  /** Prop sets sent with the project; a component starts from its first. */
+  fixtures?: PropsFixture[]
+  /** Props edited in the playground, by `path#export`, kept over rebuilds. */
+  props?: Record<string, Record<string, unknown>>
+  /** Where an App Router project opens, such as `/dashboard?tab=2`; `/` by default. */
+  path?: string
+  /** Canned responses for the project's requests; the network is left alone without them. */
+  mocks?: FetchMock[]
+}
+
+/** Root layouts wrap every page, so their stylesheets always apply. */
+const ROOT_LAYOUT = /^(src\/)?(app\/layout|pages\/_app)\.[jt]sx?$/
+
+export interface PreviewBuild {
+  /** The `srcDoc` for the preview iframe. */
+  html: string
+  react: ReactRuntime
+  /** Components the preview can render as its root, best candidate first. */
+  components: PreviewComponent[]
+  /** Module that mounts the app itself when no root is declared or chosen. */
+  bootstrap: string | null
+  /** URL patterns of the App Router's pages, rendered when no root is declared or chosen. */
+  routes: string[]
+}
+
+interface PreparedDocument {
+  react: ReactRuntime
+  components: PreviewComponent[]
+  bootstrap: string | null
+  routes: string[]
+  /** The document rendering a given entry, or the detected root without one. */
+  render: (entry?: PreviewEntry) => string
+}
+
+/** Builds the preview iframe document from a project's files. */
+export function buildPreviewDocument(files: ProjectFile[], options: PreviewOptions = {}): PreviewBuild {
+  const { react, components, bootstrap, routes, render } = prepareDocument(files, options)
+  return { html: render(options.entry), react, components, bootstrap, routes }
+}
+
+/**
+ * One document per detected component, each rendering only that component,
+ * for the component gallery. The project is compiled once for all of them.
+ */
+export function buildComponentDocuments(
+  files: ProjectFile[],
+  options: PreviewOptions = {},
+): { component: PreviewComponent; html: string }[] {
+  const { components, render } = prepareDocument(files, options)
+  return components.map((component) => ({
+    component,
+    html: render({ path: component.path, export: component.export }),
+  }))
+}
+
+function prepareDocument(projectFiles: ProjectFile[], options: PreviewOptions): PreparedDocument {
+  // Text sent as base64 is read like any other file from here on
+  const files = projectFiles.map(toTextFile)
+  const react = selectReactRuntime(files)
+
+  // Find JavaScript/TypeScript files
+  const jsFiles = files.filter((f) => isSourceFile(f.path))
+
+  if (jsFiles.length === 0) {
+    const html = `<!DOCTYPE html><html><head><meta charset='utf-8'/></head><body>
+      <div style="padding:24px;font-family:system-ui;text-align:center;">
+        <h2>No React Components Found</h2>
+        <p>Upload files with .js, .jsx, .ts, or .tsx extensions to see a preview.</p>
+        <p>Available files: ${files.map((f) => f.path).join(", ")}</p>
+      </div></body></html>`
+    return { react, components: [], bootstrap: null, routes: [], render: () => html }
+  }
+
+  const modules = buildModules(files)
+  const components = detectComponents(files, modules)
+  const indexHtml = readIndexHtml(files)
+
+  // Stylesheets are injected as modules import them. Those the root layout
+  // imports, and optionally those nothing imports, go in before any module runs.
+  const imported = new Set(Object.values(modules).flatMap((m) => Object.values(m.deps)))
+  const layoutStylesheets = Object.entries(modules)
+    .filter(([id]) => ROOT_LAYOUT.test(id))
+    .flatMap(([, m]) => Object.values(m.deps).filter(isStylesheet))
+  const unimportedStylesheets = options.includeUnimportedCss
+    ? Object.keys(modules).filter((id) => isStylesheet(id) && !isCssModule(id) && !imported.has(id))
+    : []
+
+  const manifest = {
+    modules,
+    entries: rankEntries(jsFiles.map((f) => toModuleId(f.path))),
+    entry: null as { id: string; export: string } | null,
+    components,
+    // Props each component is mounted with, so ones that require props render
+    props: Object.fromEntries(
+      components.map((c) => {
+        const key = `${c.path}#${c.export}`
+        return [key, options.props?.[key] ?? initialProps(c.props, fixturesFor(options.fixtures ?? [], c)[0])]
+      }),
+    ),
+    // Runs as-is instead of a detected root being mounted
+    bootstrap: detectBootstrap(files, modules, indexHtml?.scripts ?? []),
+    // Next.js App Router pages, rendered inside their layouts
+    routes: readAppRoutes(Object.keys(modules).filter(isSourceFile)),
+    // Route handlers that answer the project's own fetch("/api/...") calls
+    api: readApiRoutes(Object.keys(modules).filter(isSourceFile)),
+    path: options.path ?? "/",
+    mocks: options.mocks ?? null,
+    packages: [...new Set(Object.values(modules).flatMap((m) => m.packages))],
+    stylesheets: [...new Set([...layoutStylesheets, ...unimportedStylesheets])],
+  }
+  const globalStylesheets = Object.keys(modules).filter(
+    (id) => isStylesheet(id) && !isCssModule(id) && (imported.has(id) || manifest.stylesheets.includes(id)),
+  )
+  const tailwind = readTailwindInput(files, modules, globalStylesheets, manifest.packages)
+  const publicFiles = readPublicFiles(files)
+
+  const render = (entry?: PreviewEntry): string => `<!DOCTYPE html><html><head>
+    <meta charset='utf-8'/>
+    <meta name='viewport' content='width=device-width,initial-scale=1'/>
+    <title>React App Preview</title>
+    <script type='importmap'>${toScriptJson(importMap(react.version))}</script>
+    <script src='${vendorUrl("react", react.version)}'></script>
+    <script src='${vendorUrl("react-dom", react.version)}'></script>
+    <script src='${vendorUrl("babel")}'></script>
+    <style>
+      body { margin: 0; font-family: system-ui, -apple-system, sans-serif; }
+      .error-display {
+        background: #fee; border: 1px solid #fcc; color: #c33;
+        padding: 16px; margin: 16px; border-radius: 8px;
+        white-space: pre-wrap; font-family: monospace; font-size: 14px;
+        max-height: 400px; overflow-y: auto;
+      }
+      .preview-loading { padding: 16px; color: #666; font-size: 14px; }
+      .component-list {
+        background: #f8f9fa; border: 1px solid #dee2e6;
+        padding: 12px; margin: 8px 0; border-radius: 6px;
+        font-family: monospace; font-size: 12px;
+      }
+    </style>
+    <style id='preview-tailwind-css'></style>
+  </head><body${indexHtml?.attributes ?? ""}>
+    ${indexHtml?.body ?? "<div id='root'></div>"}
+    <script>
+      // Errors replace the page; an index.html of the project's may have no #root
+      const errorContainer = () => document.getElementById('root') || document.body;
+
+      window.onerror = (msg, url, line, col, error) => {
+        const errorDiv = document.createElement('div');
+        errorDiv.className = 'error-display';
+        errorDiv.textContent = 'Runtime Error:\\n' + (error && error.stack ? error.stack : msg);
+        errorContainer().innerHTML = '';
+        errorContainer().appendChild(errorDiv);
+        return true;
+      };
+
+      window.addEventListener('unhandledrejection', (event) => {
+        const errorDiv = document.createElement('div');
+        errorDiv.className = 'error-display';
+        errorDiv.textContent = 'Promise Rejection:\\n' + (event.reason && event.reason.stack ? event.reason.stack : event.reason);
+        errorContainer().innerHTML = '';
+        errorContainer().appendChild(errorDiv);
+      });
+    </script>
+    <script type='application/json' id='preview-modules'>${toScriptJson({
+      ...manifest,
+      entry: entry ? { id: toModuleId(entry.path), export: entry.export ?? "default" } : null,
+    })}</script>
+    <script>${MODULE_RUNTIME}</script>
+    <script>${XHR_RUNTIME}</script>
+    <script>${MOCKS_RUNTIME}</script>
+    <script type='application/json' id='preview-public'>${toScriptJson(publicFiles)}</script>
+    <script>${PUBLIC_RUNTIME}</script>
+    <script type='application/json' id='preview-tailwind'>${toScriptJson(tailwind)}</script>
+    <script>${TAILWIND_RUNTIME}</script>
+    <script>${SERVER_RUNTIME}</script>
+    <script>${ROUTER_RUNTIME}</script>
+    <script>${API_RUNTIME}</script>
+    <script>${NEXT_RUNTIME}</script>
+    <script type='text/babel' data-presets='react'>
+      const render = () => {
+        const { entries, entry, components, bootstrap, props, stylesheets, AppRouter } = window.__preview;
+        stylesheets.forEach((id) => window.__preview.require(id));
+
+        // React 17 has no createRoot. The project's index.html may lack #root.
+        // Async Server Components suspend, so there is always a boundary
+        const mount = (content) => {
+          const element = (
+            <React.Suspense fallback={<div className="preview-loading">Loading…</div>}>{content}</React.Suspense>
+          );
+          let container = document.getElementById('root');
+          if (!container) {
+            container = document.createElement('div');
+            container.id = 'root';
+            document.body.appendChild(container);
+          }
+          if (ReactDOM.createRoot) ReactDOM.createRoot(container).render(element);
+          else ReactDOM.render(element, container);
+        };
+
+        const isComponent = (value) =>
+          typeof value === 'function' || (value !== null && typeof value === 'object' && '$$typeof' in value);
+
+        // A CommonJS module.exports stands in for the default export
+        const readExport = (exports, name) => (name === 'default' && !exports.__esModule ? exports : exports[name]);
+
+        // Functions arrive as { $previewFunction: name }; their calls are
+        // listed on the host page
+        const session = Date.now().toString(36);
+        let callbacks = 0;
+        const reportCallback = (name, component, args) => {
+          if (window.parent === window) return;
+          const call = {
+            id: session + '-' + ++callbacks,
+            name,
+            component,
+            args: window.__preview.loggable(args),
+            time: new Date().toISOString(),
+          };
+          window.parent.postMessage({ type: 'preview:callback', call }, '*');
+        };
+        const reviveProps = (values, component) =>
+          Object.fromEntries(
+            Object.entries(values || {}).map(([name, value]) => [
+              name,
+              value !== null && typeof value === 'object' && '$previewFunction' in value
+                ? (...args) => reportCallback(value.$previewFunction, component, args)
+                : value,
+            ])
+          );
+
+        const mountRoot = (Root, id, exportName) => {
+          // How the host page names the component, as in the props playground
+          const key = id + '#' + exportName;
+
+          class ErrorBoundary extends React.Component {
+            constructor(props) {
+              super(props);
+              this.state = { hasError: false, error: null };
+            }
+
+            static getDerivedStateFromError(error) {
+              return { hasError: true, error };
+            }
+
+            componentDidCatch(error, errorInfo) {
+              console.error('React Error Boundary:', error, errorInfo);
+            }
+
+            render() {
+              if (this.state.hasError) {
+                return (
+                  <div className="error-display">
+                    <strong>React Component Error:</strong>\\n
+                    {this.state.error && this.state.error.stack ? this.state.error.stack : this.state.error}
+                    \\n\\n<strong>Component:</strong> {Root.name || 'Unknown'} ({id})
+                  </div>
+                );
+              }
+              return this.props.children;
+            }
+          }
+
+          // The props playground sends edited props; each edit gets a fresh
+          // boundary so a prop combination that threw can be corrected
+          const PropsHost = () => {
+            const [state, setState] = React.useState(() => ({
+              props: reviveProps(props[key], key),
+              revision: 0,
+            }));
+            React.useEffect(() => {
+              const listener = (event) => {
+                if (event.source !== window.parent || !event.data || event.data.type !== 'preview:props') return;
+                setState((prev) => ({ props: reviveProps(event.data.props, key), revision: prev.revision + 1 }));
+              };
+              window.addEventListener('message', listener);
+              return () => window.removeEventListener('message', listener);
+            }, []);
+            return (
+              <ErrorBoundary key={state.revision}>
+                <Root {...state.props} />
+              </ErrorBoundary>
+            );
+          };
+
+          mount(<PropsHost />);
+        };
+
+        const exportNames = (exports) => Object.keys(exports).filter((key) => key !== '__esModule');
+
+        const showError = (title, message) =>
+          mount(<div className="error-display"><strong>{title}:</strong>{'\\n' + message}</div>);
+
+        // A declared entry is rendered as-is; a missing one is an error, not a
+        // reason to guess
+        if (entry) {
+          if (!entries.includes(entry.id)) {
+            showError(
+              'Entry Not Found',
+              entry.id + ' is not a JavaScript or TypeScript file in the project.\\n\\nAvailable files:\\n' + entries.join('\\n')
+            );
+            return;
+          }
+          const exports = window.__preview.require(entry.id);
+          const value = readExport(exports, entry.export);
+          if (!isComponent(value)) {
+            const names = exportNames(exports);
+            showError(
+              'Entry Not Found',
+              entry.id +
+                (entry.export in exports
+                  ? ' exports "' + entry.export + '", but it is not a component.'
+                  : ' has no export named "' + entry.export + '".') +
+                '\\n\\nExports: ' + (names.join(', ') || 'none')
+            );
+            return;
+          }
+          mountRoot(value, entry.id, entry.export);
+          return;
+        }
+
+        // Next.js App Router projects render the route the address bar shows
+        if (AppRouter) {
+          mount(<AppRouter />);
+          return;
+        }
+
+        // An entry file that mounts the app itself is left to do so
+        if (bootstrap) {
+          window.__preview.require(bootstrap);
+          return;
+        }
+
+        // Detected components in order of preference; the first that is one
+        // once evaluated is rendered
+        for (const component of components) {
+          const value = readExport(window.__preview.require(component.path), component.export);
+          if (isComponent(value)) {
+            mountRoot(value, component.path, component.export);
+            return;
+          }
+        }
+
+        mount(
+          <div style={{fontFamily:'system-ui',padding:24,textAlign:'center'}}>
+            <h2>No Root Component Detected</h2>
+            <p>None of the project's files exports a React component.</p>
+            <details style={{marginTop:16,textAlign:'left'}}>
+              <summary>Files checked ({entries.length}):</summary>
+              <div className="component-list">
+                {entries.map((id) => <div key={id}>{id}</div>)}
+              </div>
+            </details>
+            <div style={{marginTop:16,fontSize:14,color:'#666'}}>
+              Export a component as the default export of app/page.tsx or src/App.tsx, or declare an entry.
+            </div>
+          </div>
+        );
+      };
+
+      // Package store modules and the compiled CSS load asynchronously; render
+      // once they are in. Styles always settle, so only a package that fails
+      // to load stops the render
+      Promise.all([window.__preview.ready, window.__preview.styles]).then(render).catch((error) => {
+        errorContainer().innerHTML =
+          '<div class="error-display"><strong>Compilation Error:</strong>\\n' + (error.stack || error) + '</div>';
+      });
+    </script>
+  </body></html>`
+
+  return {
+    react,
+    components,
+    bootstrap: manifest.bootstrap,
+    routes: manifest.routes?.routes.map((route) => route.pattern).sort() ?? [],
+    render,
+  }
+}
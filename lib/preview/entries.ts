@@ -0,0 +1,25 @@
+// ---------------------------------------------------------------------------
+// Entry selection ------------------------------------------------------------
+// ---------------------------------------------------------------------------
+// Kept apart from the module graph so the host page can rank files without
+// loading the TypeScript compiler.
+
+const ENTRY_PRIORITIES: ((path: string) => boolean)[] = [
+  (p) => p === "app/page.tsx",
+  (p) => p === "src/App.tsx",
+  (p) => p === "App.tsx",
+  (p) => p.includes("page.") && p.includes(".tsx"),
+  (p) => p.includes("App.") && p.includes(".tsx"),
+  (p) => p.includes("index.") && p.includes(".tsx"),
+  (p) => p.endsWith(".tsx"),
+  (p) => p.endsWith(".jsx"),
+]
+
+/** Orders paths by how likely they are to hold the root component. */
+export function rankEntries(paths: string[]): string[] {
+  const rank = (p: string) => {
+    const index = ENTRY_PRIORITIES.findIndex((matches) => matches(p))
+    return index === -1 ? ENTRY_PRIORITIES.length : index
+  }
+  return paths.map((p, i) => ({ p, i, r: rank(p) })).sort((a, b) => a.r - b.r || a.i - b.i).map(({ p }) => p)
+}
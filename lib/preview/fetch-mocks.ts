@@ -0,0 +1,145 @@
+// ---------------------------------------------------------------------------
+// Fetch mocks ----------------------------------------------------------------
+// ---------------------------------------------------------------------------
+// Frontends written against an external API have nothing to talk to in the
+// preview. A project may come with mocks: canned responses that MOCKS_RUNTIME
+// hands to `fetch()` and XMLHttpRequest calls they match, after an optional
+// delay. Once a project has mocks, a request none of them matches fails like a
+// network error instead of reaching the network, and is reported to the host
+// page as unmocked, which explains a component stuck in its empty state.
+// Requests the preview answers itself (public files, the project's API routes,
+// the preview's own assets) are not affected.
+
+export interface FetchMock {
+  /** Any method when not given. */
+  method?: string
+  /**
+   * A URL, or a path matching requests to any host, where `*` matches any run
+   * of characters. The query string only counts when the pattern has one.
+   */
+  url: string
+  /** 200 by default. */
+  status?: number
+  headers?: Record<string, string>
+  /** Sent as JSON. */
+  body?: unknown
+  /** Milliseconds before the response arrives. */
+  delay?: number
+}
+
+/** The preview host's own routes, which the preview loads from whether they are mocked or match a project route. */
+export const HOST_ROUTES = ["/api/placeholder", "/api/tailwind", "/vendor/"]
+
+// Runs inside the preview iframe after the XHR runtime and before the public
+// files runtime, so it sees requests after references to public files were
+// rewritten to blob URLs. The API runtime is installed later and answers
+// requests to the project's routes before they get here.
+export const MOCKS_RUNTIME = String.raw`
+(function () {
+  var preview = window.__preview;
+  var mocks = preview.mocks;
+  if (!mocks) return;
+
+  var base = new URL(document.baseURI);
+  var HOST_ROUTES = ${JSON.stringify(HOST_ROUTES)};
+  var NULL_BODY = [101, 204, 205, 304];
+
+  function toRegExp(pattern) {
+    return new RegExp('^' + pattern.split('*').map(function (part) {
+      return part.replace(/[.+?^${"$"}{}()|[\]\\]/g, '\\$&');
+    }).join('.*') + '$');
+  }
+
+  function matches(mock, method, url) {
+    if (mock.method && mock.method.toUpperCase() !== method) return false;
+    var path = mock.url.indexOf('?') === -1 ? url.pathname : url.pathname + url.search;
+    var absolute = /^[a-z][a-z0-9+.-]*:/i.test(mock.url);
+    return toRegExp(mock.url).test(absolute ? url.origin + path : path);
+  }
+
+  // The router runtime is installed after this one, so routes are matched when
+  // a request is made
+  function isApiRoute(pathname) {
+    return (preview.api || []).some(function (route) {
+      try {
+        return preview.router.match(route.segments, pathname) !== null;
+      } catch (error) {
+        return false;
+      }
+    });
+  }
+
+  function passesThrough(url) {
+    if (url.protocol === 'blob:' || url.protocol === 'data:') return true;
+    if (url.origin !== base.origin) return false;
+    return isApiRoute(url.pathname) || HOST_ROUTES.some(function (route) {
+      return url.pathname.indexOf(route) === 0;
+    });
+  }
+
+  var session = Date.now().toString(36);
+  var requests = 0;
+
+  function report(method, url, status) {
+    var request = {
+      id: session + '-' + ++requests,
+      method: method,
+      url: url.href,
+      status: status,
+      time: new Date().toISOString(),
+    };
+    if (window.parent !== window) window.parent.postMessage({ type: 'preview:request', request: request }, '*');
+  }
+
+  // The mock answering a request, null when it is unmocked, or undefined when
+  // it goes out as usual
+  function lookup(method, href) {
+    var url;
+    try {
+      url = new URL(href, base);
+    } catch (error) {
+      return undefined;
+    }
+    method = method.toUpperCase();
+    var mock = mocks.filter(function (candidate) { return matches(candidate, method, url); })[0];
+    if (!mock && passesThrough(url)) return undefined;
+    report(method, url, mock ? mock.status || 200 : null);
+    return mock || null;
+  }
+
+  function mockHeaders(mock) {
+    var headers = new Headers(mock.headers);
+    if (mock.body !== undefined && !headers.has('content-type')) headers.set('content-type', 'application/json');
+    return headers;
+  }
+
+  function mockBody(mock) {
+    var status = mock.status || 200;
+    return mock.body === undefined || NULL_BODY.indexOf(status) !== -1 ? null : JSON.stringify(mock.body);
+  }
+
+  // The response to a request, settled after the mock's delay; undefined when
+  // the request goes out as usual
+  function respond(method, href) {
+    var mock = lookup(method, href);
+    if (mock === undefined) return undefined;
+    if (mock === null) return Promise.reject(new TypeError('Unmocked request: ' + method.toUpperCase() + ' ' + href));
+    return new Promise(function (resolve) {
+      setTimeout(function () {
+        resolve(new Response(mockBody(mock), { status: mock.status || 200, headers: mockHeaders(mock) }));
+      }, mock.delay || 0);
+    });
+  }
+
+  var fetch = window.fetch;
+  window.fetch = function (input, init) {
+    var href = input instanceof Request ? input.url : String(input);
+    var method = (init && init.method) || (input instanceof Request ? input.method : 'GET');
+    return respond(method, href) || fetch.apply(this, arguments);
+  };
+
+  preview.interceptXhr(function (method, url) {
+    return respond(method, url.href);
+  });
+})();
+`
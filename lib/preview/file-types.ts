@@ -0,0 +1,89 @@
+// ---------------------------------------------------------------------------
+// File types -----------------------------------------------------------------
+// ---------------------------------------------------------------------------
+// Files arrive as text, or base64 when they hold binary data. Kept free of the
+// TypeScript compiler so the file browser can use it as well as the preview.
+
+interface ProjectFile {
+  path: string
+  content: string
+  type: string
+  encoding?: "utf8" | "base64"
+  mimeType?: string
+}
+
+const MIME_TYPES: Record<string, string> = {
+  apng: "image/apng",
+  avif: "image/avif",
+  bmp: "image/bmp",
+  gif: "image/gif",
+  ico: "image/x-icon",
+  jpeg: "image/jpeg",
+  jpg: "image/jpeg",
+  png: "image/png",
+  svg: "image/svg+xml",
+  webp: "image/webp",
+  eot: "application/vnd.ms-fontobject",
+  otf: "font/otf",
+  ttf: "font/ttf",
+  woff: "font/woff",
+  woff2: "font/woff2",
+  mp3: "audio/mpeg",
+  ogg: "audio/ogg",
+  wav: "audio/wav",
+  mp4: "video/mp4",
+  webm: "video/webm",
+}
+
+const TEXT_MIME_TYPE = /^text\/|json|javascript|xml/
+
+/** MIME type of an asset file by extension, or `null` if it is not one. */
+export const assetMimeType = (path: string): string | null =>
+  MIME_TYPES[path.split(".").pop()!.toLowerCase()] ?? null
+
+/** Source files, stylesheets and JSON are what their extension says, whatever type they were sent with. */
+const CODE_FILE = /\.([tj]sx?|css|s[ac]ss|json)$/
+
+/** MIME type of an asset file, preferring the one it was sent with; `null` for code and unknown files. */
+export const fileMimeType = (file: ProjectFile): string | null =>
+  CODE_FILE.test(file.path) ? null : (file.mimeType ?? assetMimeType(file.path))
+
+/** Whether a file is base64-encoded bytes that are not meant to be read as text. */
+export const isBinaryFile = (file: ProjectFile): boolean => {
+  if (file.encoding !== "base64") return false
+  const mimeType = fileMimeType(file)
+  return mimeType !== null && !TEXT_MIME_TYPE.test(mimeType)
+}
+
+/** Whether `content` decodes as base64. */
+export const isValidBase64 = (content: string): boolean => {
+  try {
+    atob(content)
+    return true
+  } catch {
+    return false
+  }
+}
+
+const decodeBase64 = (content: string): Uint8Array => Uint8Array.from(atob(content), (c) => c.charCodeAt(0))
+
+/**
+ * Decodes base64 text files so everything but binaries can be read as UTF-8.
+ * Throws when the content is not valid base64.
+ */
+export function toTextFile<T extends ProjectFile>(file: T): T {
+  if (file.encoding !== "base64" || isBinaryFile(file)) return file
+  return { ...file, content: new TextDecoder().decode(decodeBase64(file.content)), encoding: "utf8" }
+}
+
+/** Size of a file's contents in bytes. */
+export const fileSize = (file: ProjectFile): number =>
+  file.encoding === "base64" ? decodeBase64(file.content).length : new TextEncoder().encode(file.content).length
+
+/** A `data:` URL for a file, for displaying it outside the preview. */
+export const fileDataUrl = (file: ProjectFile): string => {
+  const mimeType = fileMimeType(file) ?? "application/octet-stream"
+  return file.encoding === "base64"
+    ? `data:${mimeType};base64,${file.content}`
+    : `data:${mimeType};charset=utf-8,${encodeURIComponent(file.content)}`
+}
@@ -0,0 +1,44 @@
+import { toModuleId } from "@/lib/preview/module-id"
+
+// ---------------------------------------------------------------------------
+// index.html -----------------------------------------------------------------
+// ---------------------------------------------------------------------------
+// Vite projects ship an `index.html` and Create React App a `public/index.html`
+// holding the element their entry file mounts into. Its body becomes the
+// preview's body; its scripts are left out, since the preview runs the entry
+// module itself.
+
+interface ProjectFile {
+  path: string
+  content: string
+  type: string
+}
+
+const INDEX_HTML = ["index.html", "public/index.html"]
+
+export interface IndexHtml {
+  /** Attributes of the `<body>` tag, with a leading space, or "". */
+  attributes: string
+  /** Body markup without its scripts. */
+  body: string
+  /** Module ids of the project files its scripts load, in order. */
+  scripts: string[]
+}
+
+/** Reads the project's index.html, if it ships one. */
+export function readIndexHtml(files: ProjectFile[]): IndexHtml | null {
+  const file = INDEX_HTML.map((path) => files.find((f) => toModuleId(f.path) === path)).find(Boolean)
+  if (!file) return null
+
+  // Create React App templates refer to the public directory this way
+  const html = file.content.replace(/%PUBLIC_URL%/g, "")
+  const body = html.match(/<body([^>]*)>([\s\S]*?)(<\/body>|$)/i)
+  const scripts: string[] = []
+  for (const [, attributes] of html.matchAll(/<script\b([^>]*)>/gi)) {
+    const src = attributes.match(/\bsrc\s*=\s*["']?([^"'\s>]+)/i)
+    if (src && !/^[a-z]+:|^\/\//i.test(src[1])) scripts.push(toModuleId(src[1]))
+  }
+  const markup = (body ? body[2] : html.replace(/^[\s\S]*<\/head>/i, "")).replace(/<script\b[\s\S]*?<\/script>/gi, "")
+
+  return { attributes: body ? body[1] : "", body: markup.trim(), scripts }
+}
@@ -0,0 +1,16 @@
+// ---------------------------------------------------------------------------
+// Module ids -----------------------------------------------------------------
+// ---------------------------------------------------------------------------
+// Kept apart from specifier resolution so the host page can match paths the
+// way the preview does without loading the TypeScript compiler.
+
+/** Normalizes a project path to a module id: no leading `./` or `/`, no `.`/`..` segments. */
+export const toModuleId = (path: string): string => {
+  const segments: string[] = []
+  for (const segment of path.split("/")) {
+    if (!segment || segment === ".") continue
+    if (segment === "..") segments.pop()
+    else segments.push(segment)
+  }
+  return segments.join("/")
+}
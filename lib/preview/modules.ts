@@ -0,0 +1,104 @@
+import { isJsonFile, jsonModule } from "@/lib/preview/assets"
+import { compileCssModule, isCssModule } from "@/lib/preview/css-modules"
+import { fileMimeType } from "@/lib/preview/file-types"
+import { toModuleId } from "@/lib/preview/module-id"
+import { readPathAliases, resolveImport, type ResolveContext } from "@/lib/preview/resolve"
+import { compileSass, isSass, isSassPartial } from "@/lib/preview/sass"
+import { transpile } from "@/lib/preview/transpile"
+import { isStorePackage } from "@/lib/preview/vendor"
+
+// ---------------------------------------------------------------------------
+// Module graph ---------------------------------------------------------------
+// ---------------------------------------------------------------------------
+// Every project file becomes its own module in the preview. Import specifiers
+// are resolved here against the file list so the iframe runtime only has to
+// look them up.
+
+interface ProjectFile {
+  path: string
+  content: string
+  type: string
+  encoding?: "utf8" | "base64"
+  mimeType?: string
+}
+
+export interface PreviewModule {
+  /** CommonJS code with JSX still in place, or `null` for files without code. */
+  code: string | null
+  /** Import specifier -> module id, for every specifier that resolved. */
+  deps: Record<string, string>
+  /** Package store specifiers the module imports, loaded before anything runs. */
+  packages: string[]
+  /** Stylesheet injected into the document when the module is first required. */
+  css?: string
+  /** File exported as an object URL when required. */
+  asset?: { mimeType: string; content: string; encoding: "utf8" | "base64" }
+  /** Set when the file could not be compiled; thrown when the module is required. */
+  error?: string
+}
+
+export const isSourceFile = (path: string): boolean => /\.(t|j)sx?$/.test(path)
+
+export const isStylesheet = (path: string): boolean => /\.(css|s[ac]ss)$/.test(path) && !isSassPartial(path)
+
+const toError = (err: unknown): string => (err instanceof Error ? err.message : String(err))
+
+/** Compiles Sass, then scopes CSS Modules; plain CSS is injected as written. */
+function buildStylesheet(id: string, sources: Map<string, string>): PreviewModule {
+  try {
+    const css = isSass(id) ? compileSass(id, sources) : sources.get(id)!
+    if (!isCssModule(id)) return { code: null, deps: {}, packages: [], css }
+    const scoped = compileCssModule(id, css)
+    return { code: `module.exports = ${JSON.stringify(scoped.classes)};`, deps: {}, packages: [], css: scoped.css }
+  } catch (err) {
+    return { code: null, deps: {}, packages: [], error: toError(err) }
+  }
+}
+
+/** Compiles every project file into a module keyed by its module id. */
+export function buildModules(files: ProjectFile[]): Record<string, PreviewModule> {
+  const context: ResolveContext = {
+    ids: new Set(files.map((f) => toModuleId(f.path))),
+    aliases: readPathAliases(files),
+  }
+  const sources = new Map(files.map((f) => [toModuleId(f.path), f.content]))
+  const modules: Record<string, PreviewModule> = {}
+
+  for (const file of files) {
+    const id = toModuleId(file.path)
+    if (isStylesheet(id)) {
+      modules[id] = buildStylesheet(id, sources)
+      continue
+    }
+    if (isJsonFile(id)) {
+      try {
+        modules[id] = { code: jsonModule(id, file.content), deps: {}, packages: [] }
+      } catch (err) {
+        modules[id] = { code: null, deps: {}, packages: [], error: toError(err) }
+      }
+      continue
+    }
+    if (!isSourceFile(id)) {
+      const mimeType = fileMimeType(file)
+      const asset = mimeType ? { mimeType, content: file.content, encoding: file.encoding ?? "utf8" } : undefined
+      modules[id] = { code: null, deps: {}, packages: [], asset }
+      continue
+    }
+
+    try {
+      const { code, imports } = transpile(id, file.content)
+      const deps: Record<string, string> = {}
+      const packages: string[] = []
+      for (const specifier of imports) {
+        const resolved = resolveImport(id, specifier, context)
+        if (resolved) deps[specifier] = resolved
+        else if (isStorePackage(specifier)) packages.push(specifier)
+      }
+      modules[id] = { code, deps, packages }
+    } catch (err) {
+      modules[id] = { code: null, deps: {}, packages: [], error: toError(err) }
+    }
+  }
+
+  return modules
+}
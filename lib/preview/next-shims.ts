@@ -0,0 +1,252 @@
+// ---------------------------------------------------------------------------
+// Next.js shims --------------------------------------------------------------
+// ---------------------------------------------------------------------------
+// Generated Next.js code imports `next/link`, `next/image`, `next/navigation`,
+// `next/font/*` and `next/head` even when it is a single page. None of Next
+// runs in the preview, so these stand-ins provide the same exports on top of
+// the preview's in-memory router (see app-router.ts). Images render as plain
+// `<img>` elements, and fonts use the local font of that name when there is
+// one, falling back to a system stack, since the preview loads nothing from a
+// CDN.
+
+/** Families that fall back to a serif or monospace stack rather than sans-serif. */
+const SERIF_FONTS = /serif|playfair|merriweather|lora|garamond|baskerville|crimson|libre_caslon|spectral|fraunces/i
+const MONO_FONTS = /mono|code|courier|consolas/i
+
+const FONT_STACKS = {
+  sans: "ui-sans-serif, system-ui, -apple-system, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif",
+  serif: "ui-serif, Georgia, Cambria, 'Times New Roman', Times, serif",
+  mono: "ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, 'Liberation Mono', 'Courier New', monospace",
+}
+
+// Runs inside the preview iframe after the router runtime.
+export const NEXT_RUNTIME = String.raw`
+(function () {
+  var preview = window.__preview;
+  var router = preview.router;
+  var h = React.createElement;
+
+  function esModule(exports) {
+    return Object.assign({ __esModule: true }, exports);
+  }
+
+  // Re-renders on navigation and returns the current location
+  function useLocation() {
+    var state = React.useState(router.location);
+    React.useEffect(function () {
+      return router.subscribe(state[1]);
+    }, []);
+    return state[0];
+  }
+
+  // ---- next/navigation ----------------------------------------------------
+
+  var appRouter = {
+    push: function (href) { router.push(href); },
+    replace: function (href) { router.replace(href); },
+    back: router.back,
+    forward: router.forward,
+    refresh: router.refresh,
+    prefetch: function () {},
+  };
+
+  function routerError(message, digest) {
+    var error = new Error(message);
+    error.digest = digest;
+    return error;
+  }
+
+  function redirect(href) {
+    throw routerError('NEXT_REDIRECT', 'NEXT_REDIRECT;' + href);
+  }
+
+  // The path's segments below the root; route groups never appear in it
+  function useSelectedLayoutSegments() {
+    return useLocation().pathname.split('/').filter(Boolean);
+  }
+
+  preview.provide('next/navigation', esModule({
+    useRouter: function () { return appRouter; },
+    usePathname: function () { return useLocation().pathname; },
+    useSearchParams: function () {
+      var search = useLocation().search;
+      return React.useMemo(function () { return new URLSearchParams(search); }, [search]);
+    },
+    useParams: function () {
+      useLocation();
+      return router.params();
+    },
+    useSelectedLayoutSegments: useSelectedLayoutSegments,
+    useSelectedLayoutSegment: function () {
+      return useSelectedLayoutSegments()[0] || null;
+    },
+    notFound: function () {
+      throw routerError('NEXT_NOT_FOUND', 'NEXT_NOT_FOUND');
+    },
+    redirect: redirect,
+    permanentRedirect: redirect,
+    RedirectType: { push: 'push', replace: 'replace' },
+  }));
+
+  // ---- next/link ----------------------------------------------------------
+
+  // href may be a string or a URL object such as { pathname, query }
+  function formatHref(href) {
+    if (typeof href === 'string') return href;
+    if (!href) return '';
+    var search = href.search || (href.query ? '?' + new URLSearchParams(href.query).toString() : '');
+    var hash = href.hash ? (href.hash.charAt(0) === '#' ? href.hash : '#' + href.hash) : '';
+    return (href.pathname || '') + (search === '?' ? '' : search) + hash;
+  }
+
+  function isExternal(href) {
+    return /^([a-z][a-z0-9+.-]*:|\/\/)/i.test(href);
+  }
+
+  var Link = React.forwardRef(function Link(props, ref) {
+    var href = formatHref(props.as || props.href);
+    var rest = Object.assign({}, props);
+    ['href', 'as', 'replace', 'scroll', 'prefetch', 'shallow', 'locale', 'legacyBehavior', 'passHref'].forEach(
+      function (name) { delete rest[name]; }
+    );
+
+    function onClick(event) {
+      if (props.onClick) props.onClick(event);
+      if (event.defaultPrevented || event.button !== 0) return;
+      if (event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) return;
+      if ((props.target && props.target !== '_self') || isExternal(href)) return;
+      event.preventDefault();
+      if (props.replace) router.replace(href);
+      else router.push(href);
+    }
+
+    // Older code wraps its own <a> and has Link hand it href and onClick
+    if (props.legacyBehavior) {
+      var child = React.Children.only(props.children);
+      return React.cloneElement(child, {
+        href: href,
+        ref: ref,
+        onClick: function (event) {
+          if (child.props.onClick) child.props.onClick(event);
+          onClick(event);
+        },
+      });
+    }
+    return h('a', Object.assign(rest, { href: href, ref: ref, onClick: onClick }));
+  });
+  Link.displayName = 'Link';
+
+  preview.provide('next/link', esModule({ default: Link }));
+
+  // ---- next/image ---------------------------------------------------------
+
+  var Image = React.forwardRef(function Image(props, ref) {
+    // Static imports are objects with the URL in src
+    var source = props.src && typeof props.src === 'object' ? props.src : { src: props.src };
+    var width = props.width !== undefined ? props.width : props.fill ? undefined : source.width;
+    var height = props.height !== undefined ? props.height : props.fill ? undefined : source.height;
+    var src = props.loader && !props.unoptimized
+      ? props.loader({ src: source.src, width: Number(width) || 0, quality: props.quality })
+      : source.src;
+
+    var rest = Object.assign({}, props);
+    ['src', 'width', 'height', 'fill', 'priority', 'quality', 'placeholder', 'blurDataURL', 'loader',
+      'unoptimized', 'onLoadingComplete', 'layout', 'objectFit', 'objectPosition', 'lazyBoundary',
+      'lazyRoot'].forEach(function (name) { delete rest[name]; });
+
+    var style = props.fill
+      ? Object.assign({ position: 'absolute', inset: 0, width: '100%', height: '100%' }, props.style)
+      : props.style;
+    var onLoad = props.onLoadingComplete
+      ? function (event) {
+        if (props.onLoad) props.onLoad(event);
+        props.onLoadingComplete(event.currentTarget);
+      }
+      : props.onLoad;
+
+    return h('img', Object.assign(rest, {
+      ref: ref,
+      src: src,
+      width: width,
+      height: height,
+      style: style,
+      onLoad: onLoad,
+      loading: props.priority ? 'eager' : props.loading || 'lazy',
+      decoding: 'async',
+    }));
+  });
+  Image.displayName = 'Image';
+
+  preview.provide('next/image', esModule({
+    default: Image,
+    getImageProps: function (props) {
+      return { props: Object.assign({}, props, { src: typeof props.src === 'object' ? props.src.src : props.src }) };
+    },
+  }));
+  preview.provide('next/legacy/image', esModule({ default: Image }));
+
+  // ---- next/font ----------------------------------------------------------
+
+  var STACKS = ${JSON.stringify(FONT_STACKS)};
+  var fontCount = 0;
+
+  function fallbackStack(family) {
+    if (${MONO_FONTS}.test(family)) return STACKS.mono;
+    if (/sans/i.test(family)) return STACKS.sans;
+    if (${SERIF_FONTS}.test(family)) return STACKS.serif;
+    return STACKS.sans;
+  }
+
+  // Returns what next/font does: a class setting the family and, when asked
+  // for, a class defining it as a CSS variable
+  function loadFont(family, options) {
+    options = options || {};
+    var id = '__font_' + family.replace(/\W+/g, '_').toLowerCase() + '_' + (++fontCount);
+    var fontFamily = (family ? "'" + family + "', " : '') + fallbackStack(family);
+    var weight = typeof options.weight === 'string' ? options.weight : null;
+    var fontStyle = typeof options.style === 'string' ? options.style : null;
+
+    var css = '.' + id + '{font-family:' + fontFamily + ';' +
+      (weight ? 'font-weight:' + weight + ';' : '') +
+      (fontStyle ? 'font-style:' + fontStyle + ';' : '') + '}';
+    if (options.variable) css += '.' + id + '_variable{' + options.variable + ':' + fontFamily + ';}';
+    var style = document.createElement('style');
+    style.setAttribute('data-font', family || 'local');
+    style.textContent = css;
+    document.head.appendChild(style);
+
+    var result = { className: id, style: { fontFamily: fontFamily } };
+    if (weight) result.style.fontWeight = Number(weight) || weight;
+    if (fontStyle) result.style.fontStyle = fontStyle;
+    if (options.variable) result.variable = id + '_variable';
+    return result;
+  }
+
+  // Any export is a font: Inter, Geist_Mono, Playfair_Display...
+  preview.provide('next/font/google', new Proxy({ __esModule: true }, {
+    get: function (target, name) {
+      if (name in target || typeof name !== 'string') return target[name];
+      return function (options) { return loadFont(name.replace(/_/g, ' '), options); };
+    },
+  }));
+
+  // Local font files are not loaded; the family falls back to a system stack
+  preview.provide('next/font/local', esModule({
+    default: function (options) {
+      var declared = options && options.declarations && options.declarations.filter(function (d) {
+        return d.prop === 'font-family';
+      })[0];
+      return loadFont(declared ? declared.value.replace(/['"]/g, '') : '', options);
+    },
+  }));
+
+  // ---- next/head ----------------------------------------------------------
+
+  // Titles, meta tags and links go into the iframe's own head
+  function Head(props) {
+    return ReactDOM.createPortal(props.children, document.head);
+  }
+
+  preview.provide('next/head', esModule({ default: Head }));
+})();
+`
@@ -0,0 +1,44 @@
+// ---------------------------------------------------------------------------
+// Placeholder images ---------------------------------------------------------
+// ---------------------------------------------------------------------------
+// Generated code sizes its placeholders through the URL, as in
+// `/placeholder.svg?height=400&width=600&text=Hero`. The /api/placeholder route
+// draws one at that size, and the preview sends such URLs there.
+
+export interface PlaceholderOptions {
+  width: number
+  height: number
+  /** Label drawn under the icon; the dimensions when there is none. */
+  text?: string
+}
+
+const escapeXml = (text: string): string =>
+  text.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`)
+
+/** An SVG placeholder of the given size, styled after public/placeholder.svg. */
+export function renderPlaceholder({ width, height, text }: PlaceholderOptions): string {
+  const size = Math.min(width, height)
+  const icon = Math.max(12, Math.round(size * 0.2))
+  const fontSize = Math.min(48, Math.max(10, Math.round(size / 12)))
+  const label = text || `${width} × ${height}`
+  // The label sits half a line below the icon, and only where it fits
+  const block = icon + fontSize * 1.5
+  const showLabel = height >= block + fontSize && width >= label.length * fontSize * 0.6
+  const iconY = Math.round((height - (showLabel ? block : icon)) / 2)
+  const scale = Math.round((icon / 24) * 1000) / 1000
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" fill="none">
+  <rect width="${width}" height="${height}" fill="#EAEAEA"/>
+  <g transform="translate(${width / 2 - icon / 2} ${iconY}) scale(${scale})" stroke="#999" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round">
+    <rect x="3" y="3" width="18" height="18" rx="2"/>
+    <circle cx="9" cy="9" r="2"/>
+    <path d="m21 15-3.086-3.086a2 2 0 0 0-2.828 0L6 21"/>
+  </g>${
+    showLabel
+      ? `
+  <text x="${width / 2}" y="${iconY + icon + fontSize / 2}" fill="#666" font-family="system-ui, -apple-system, sans-serif" font-size="${fontSize}" text-anchor="middle" dominant-baseline="hanging">${escapeXml(label)}</text>`
+      : ""
+  }
+</svg>
+`
+}
@@ -0,0 +1,256 @@
+import ts from "typescript"
+import type { PropControl, PropControlKind } from "@/lib/preview/prop-values"
+
+// ---------------------------------------------------------------------------
+// Prop types -----------------------------------------------------------------
+// ---------------------------------------------------------------------------
+// Reads a component's props from its TypeScript source, before types are
+// stripped, into controls for the props playground. There is no type checker:
+// props types are followed through interfaces, type aliases, intersections and
+// `extends` within the project's files, and anything else (library types such
+// as `React.HTMLAttributes`) is left out.
+
+/** Finds a named interface or type alias as seen from a file, following imports. */
+export type TypeLookup = (
+  name: string,
+  source: ts.SourceFile,
+) => { declaration: ts.InterfaceDeclaration | ts.TypeAliasDeclaration; source: ts.SourceFile } | null
+
+interface Member {
+  name: string
+  optional: boolean
+  type: ts.TypeNode | undefined
+  method: boolean
+  source: ts.SourceFile
+}
+
+const NODE_TYPES = /^(React\.)?(ReactNode|ReactElement|ReactChild)$|^JSX\.Element$/
+
+const COMPONENT_TYPES = /^(React\.)?(FC|FunctionComponent|VFC|VoidFunctionComponent)$/
+
+/** Type references that are functions without being written as one. */
+const FUNCTION_TYPES = /^(Function|(React\.)?\w*(EventHandler|Dispatch))$/
+
+/** Most aliases are a step or two away from a type the controls understand. */
+const MAX_DEPTH = 8
+
+const typeName = (node: ts.TypeReferenceNode): string => node.typeName.getText()
+
+const memberName = (name: ts.PropertyName): string | null =>
+  ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name) ? name.text : null
+
+/** The props type of a component and the parameter it arrives in, if written down. */
+function findProps(
+  node: ts.Node,
+  source: ts.SourceFile,
+): { type?: ts.TypeNode; parameter?: ts.ParameterDeclaration } {
+  if (ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node) || ts.isArrowFunction(node)) {
+    const parameter = node.parameters[0]
+    return { type: parameter?.type, parameter }
+  }
+  if (ts.isVariableDeclaration(node)) {
+    const fromInitializer = node.initializer ? findProps(node.initializer, source) : {}
+    const annotation = node.type
+    if (annotation && ts.isTypeReferenceNode(annotation) && COMPONENT_TYPES.test(typeName(annotation))) {
+      return { ...fromInitializer, type: annotation.typeArguments?.[0] ?? fromInitializer.type }
+    }
+    return fromInitializer
+  }
+  if (ts.isClassDeclaration(node) || ts.isClassExpression(node)) {
+    const base = node.heritageClauses?.find((c) => c.token === ts.SyntaxKind.ExtendsKeyword)?.types[0]
+    return { type: base?.typeArguments?.[0] }
+  }
+  if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+    return findProps(node.expression, source)
+  }
+  if (ts.isCallExpression(node)) {
+    // forwardRef<Element, Props>(...) names the props second; memo(...) wraps
+    const inner = node.arguments[0] ? findProps(node.arguments[0], source) : {}
+    const isForwardRef = /(^|\.)forwardRef$/.test(node.expression.getText())
+    return { ...inner, type: (isForwardRef ? node.typeArguments?.[1] : undefined) ?? inner.type }
+  }
+  if (ts.isIdentifier(node)) {
+    for (const statement of source.statements) {
+      if (ts.isFunctionDeclaration(statement) && statement.name?.text === node.text) return findProps(statement, source)
+      if (ts.isClassDeclaration(statement) && statement.name?.text === node.text) return findProps(statement, source)
+      if (ts.isVariableStatement(statement)) {
+        const declaration = statement.declarationList.declarations.find(
+          (d) => ts.isIdentifier(d.name) && d.name.text === node.text,
+        )
+        if (declaration) return findProps(declaration, source)
+      }
+    }
+  }
+  return {}
+}
+
+const fromElements = (elements: readonly ts.TypeElement[], source: ts.SourceFile, partial: boolean): Member[] =>
+  elements.flatMap((element) => {
+    if (!ts.isPropertySignature(element) && !ts.isMethodSignature(element)) return []
+    const name = memberName(element.name)
+    if (name === null) return []
+    return [
+      {
+        name,
+        optional: partial || element.questionToken !== undefined,
+        type: element.type,
+        method: ts.isMethodSignature(element),
+        source,
+      },
+    ]
+  })
+
+function readMembers(
+  type: ts.TypeNode,
+  source: ts.SourceFile,
+  lookup: TypeLookup,
+  depth = 0,
+  partial = false,
+): Member[] {
+  if (depth > MAX_DEPTH) return []
+  if (ts.isTypeLiteralNode(type)) return fromElements(type.members, source, partial)
+  if (ts.isParenthesizedTypeNode(type)) return readMembers(type.type, source, lookup, depth + 1, partial)
+  if (ts.isIntersectionTypeNode(type)) {
+    return type.types.flatMap((t) => readMembers(t, source, lookup, depth + 1, partial))
+  }
+  if (!ts.isTypeReferenceNode(type)) return []
+  return readReference(typeName(type), type.typeArguments ?? [], source, lookup, depth, partial)
+}
+
+/** Members of a named type, such as an interface or one it extends. */
+function readReference(
+  name: string,
+  typeArguments: readonly ts.TypeNode[],
+  source: ts.SourceFile,
+  lookup: TypeLookup,
+  depth: number,
+  partial: boolean,
+): Member[] {
+  const [argument] = typeArguments
+  if (/^(React\.)?PropsWithChildren$/.test(name)) {
+    const children: Member = { name: "children", optional: true, type: undefined, method: false, source }
+    return [...(argument ? readMembers(argument, source, lookup, depth + 1, partial) : []), children]
+  }
+  if (/^(Readonly|Partial)$/.test(name) && argument) {
+    return readMembers(argument, source, lookup, depth + 1, partial || name === "Partial")
+  }
+
+  const found = lookup(name, source)
+  if (!found) return []
+  const { declaration, source: from } = found
+  if (ts.isTypeAliasDeclaration(declaration)) return readMembers(declaration.type, from, lookup, depth + 1, partial)
+  const inherited = (declaration.heritageClauses ?? []).flatMap((clause) =>
+    clause.types.flatMap((base) =>
+      readReference(base.expression.getText(from), base.typeArguments ?? [], from, lookup, depth + 1, partial),
+    ),
+  )
+  return [...inherited, ...fromElements(declaration.members, from, partial)]
+}
+
+const isNullish = (type: ts.TypeNode): boolean =>
+  type.kind === ts.SyntaxKind.UndefinedKeyword ||
+  (ts.isLiteralTypeNode(type) && type.literal.kind === ts.SyntaxKind.NullKeyword)
+
+function classify(
+  type: ts.TypeNode | undefined,
+  source: ts.SourceFile,
+  lookup: TypeLookup,
+  depth = 0,
+): { kind: PropControlKind; options?: string[] } {
+  if (!type || depth > MAX_DEPTH) return { kind: "json" }
+  if (ts.isParenthesizedTypeNode(type)) return classify(type.type, source, lookup, depth + 1)
+
+  if (ts.isUnionTypeNode(type)) {
+    const types = type.types.filter((t) => !isNullish(t))
+    if (types.length === 1) return classify(types[0], source, lookup, depth + 1)
+    const literals = types.flatMap((t) =>
+      ts.isLiteralTypeNode(t) && ts.isStringLiteral(t.literal) ? [t.literal.text] : [],
+    )
+    if (literals.length === types.length) return { kind: "select", options: literals }
+    const booleans = types.every(
+      (t) =>
+        ts.isLiteralTypeNode(t) &&
+        (t.literal.kind === ts.SyntaxKind.TrueKeyword || t.literal.kind === ts.SyntaxKind.FalseKeyword),
+    )
+    if (booleans) return { kind: "boolean" }
+    // `"sm" | "lg" | string` and the like accept any text
+    if (types.some((t) => t.kind === ts.SyntaxKind.StringKeyword)) return { kind: "text" }
+    return { kind: "json" }
+  }
+
+  switch (type.kind) {
+    case ts.SyntaxKind.StringKeyword:
+      return { kind: "text" }
+    case ts.SyntaxKind.NumberKeyword:
+      return { kind: "number" }
+    case ts.SyntaxKind.BooleanKeyword:
+      return { kind: "boolean" }
+  }
+  if (ts.isLiteralTypeNode(type) && ts.isStringLiteral(type.literal)) {
+    return { kind: "select", options: [type.literal.text] }
+  }
+  if (ts.isFunctionTypeNode(type)) return { kind: "function" }
+  if (ts.isTypeReferenceNode(type)) {
+    const name = typeName(type)
+    if (NODE_TYPES.test(name)) return { kind: "node" }
+    if (FUNCTION_TYPES.test(name)) return { kind: "function" }
+    const found = lookup(name, source)
+    if (found && ts.isTypeAliasDeclaration(found.declaration)) {
+      return classify(found.declaration.type, found.source, lookup, depth + 1)
+    }
+  }
+  return { kind: "json" }
+}
+
+/** A literal default written in the parameter, as in `{ size = "md" }`. */
+function literalValue(node: ts.Expression): unknown {
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return node.text
+  if (ts.isNumericLiteral(node)) return Number(node.text)
+  const isNegative = ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.MinusToken
+  if (isNegative && ts.isNumericLiteral(node.operand)) return -Number(node.operand.text)
+  if (node.kind === ts.SyntaxKind.TrueKeyword) return true
+  if (node.kind === ts.SyntaxKind.FalseKeyword) return false
+  return undefined
+}
+
+const readDefaults = (parameter: ts.ParameterDeclaration | undefined): Map<string, unknown> => {
+  const defaults = new Map<string, unknown>()
+  if (!parameter || !ts.isObjectBindingPattern(parameter.name)) return defaults
+  for (const element of parameter.name.elements) {
+    const key = element.propertyName ?? element.name
+    if (!element.initializer || !(ts.isIdentifier(key) || ts.isStringLiteral(key))) continue
+    const value = literalValue(element.initializer)
+    if (value !== undefined) defaults.set(key.text, value)
+  }
+  return defaults
+}
+
+/**
+ * Controls for the props of a component declared by `node`: a function,
+ * class, variable or `memo`/`forwardRef` call. Empty when its props are not
+ * typed or cannot be followed.
+ */
+export function readPropControls(node: ts.Node, source: ts.SourceFile, lookup: TypeLookup): PropControl[] {
+  const { type, parameter } = findProps(node, source)
+  if (!type) return []
+  const defaults = readDefaults(parameter)
+
+  const controls = new Map<string, PropControl>()
+  for (const member of readMembers(type, source, lookup)) {
+    // PropsWithChildren adds `children` without a type node of its own
+    const { kind, options } = member.method
+      ? { kind: "function" as const, options: undefined }
+      : member.type
+        ? classify(member.type, member.source, lookup)
+        : { kind: "node" as const, options: undefined }
+    controls.set(member.name, {
+      name: member.name,
+      kind,
+      optional: member.optional,
+      ...(options && { options }),
+      ...(defaults.has(member.name) && { defaultValue: defaults.get(member.name) }),
+      type: member.type?.getText(member.source) ?? (member.method ? "function" : "ReactNode"),
+    })
+  }
+  return [...controls.values()]
+}
@@ -0,0 +1,74 @@
+import { toModuleId } from "@/lib/preview/module-id"
+
+// ---------------------------------------------------------------------------
+// Prop values ----------------------------------------------------------------
+// ---------------------------------------------------------------------------
+// Controls for a component's props, as read from its TypeScript prop types,
+// and the values the props playground starts from. Kept free of the compiler
+// so the host page can use it.
+
+export type PropControlKind = "text" | "number" | "boolean" | "select" | "node" | "function" | "json"
+
+export interface PropControl {
+  name: string
+  kind: PropControlKind
+  optional: boolean
+  /** Choices of a `"select"`, from a union of string literals. */
+  options?: string[]
+  /** Default from the component's parameter destructuring, if a literal. */
+  defaultValue?: unknown
+  /** The type as written, shown next to the control. */
+  type: string
+}
+
+/** A named set of props for one component, sent along with the project. */
+export interface PropsFixture {
+  path: string
+  /** `default` when not given. */
+  export?: string
+  name?: string
+  props: Record<string, unknown>
+}
+
+/** The fixtures sent for a component, in the order they came. */
+export const fixturesFor = (fixtures: PropsFixture[], component: { path: string; export: string }): PropsFixture[] =>
+  fixtures.filter((f) => toModuleId(f.path) === component.path && (f.export ?? "default") === component.export)
+
+/**
+ * Functions cannot travel to the preview as JSON; a prop holding this object
+ * becomes a function there that reports its calls to the host page.
+ */
+export const functionProp = (name: string) => ({ $previewFunction: name })
+
+/** Stands in for a required prop that has no default. */
+const placeholderFor = (control: PropControl): unknown => {
+  switch (control.kind) {
+    case "text":
+    case "node":
+      return control.name
+    case "number":
+      return 0
+    case "boolean":
+      return false
+    case "select":
+      return control.options?.[0]
+    case "function":
+      return functionProp(control.name)
+    case "json":
+      return /\[\]$|^(Array|ReadonlyArray)</.test(control.type) ? [] : {}
+  }
+}
+
+/**
+ * Props to render a component with before anyone edits them: the fixture's,
+ * then the component's own defaults, then placeholders for required props.
+ */
+export function initialProps(controls: PropControl[], fixture?: PropsFixture): Record<string, unknown> {
+  const props: Record<string, unknown> = {}
+  for (const control of controls) {
+    if (control.defaultValue !== undefined) props[control.name] = control.defaultValue
+    else if (control.kind === "function") props[control.name] = functionProp(control.name)
+    else if (!control.optional) props[control.name] = placeholderFor(control)
+  }
+  return { ...props, ...fixture?.props }
+}
@@ -0,0 +1,187 @@
+import { fileMimeType } from "@/lib/preview/file-types"
+
+// ---------------------------------------------------------------------------
+// Public directory -----------------------------------------------------------
+// ---------------------------------------------------------------------------
+// Next and Vite serve `public/` at the site root, so generated code refers to
+// `/hero.png` rather than importing it. The srcDoc iframe has no URLs of its
+// own (service workers cannot control it), so inside the preview each public
+// file becomes an object URL and root-relative references to it are rewritten:
+// element attributes as they are set, `url()` in stylesheets and inline styles,
+// and requests made with `fetch()` or XMLHttpRequest. Sized placeholders such
+// as `/placeholder.svg?height=400&width=600` go to the /api/placeholder route
+// instead, even when the project ships its own placeholder.svg, since a static
+// file cannot honor the size.
+
+interface ProjectFile {
+  path: string
+  content: string
+  type: string
+  encoding?: "utf8" | "base64"
+  mimeType?: string
+}
+
+/** Types for text files a page may load or fetch; assets have their own. */
+const TEXT_TYPES: Record<string, string> = {
+  css: "text/css",
+  csv: "text/csv",
+  html: "text/html",
+  js: "text/javascript",
+  json: "application/json",
+  md: "text/markdown",
+  txt: "text/plain",
+  xml: "application/xml",
+}
+
+export interface PublicFile {
+  mimeType: string
+  content: string
+  encoding: "utf8" | "base64"
+}
+
+const isPublicFile = (path: string): boolean => path.startsWith("public/")
+
+/** Files under `public/`, keyed by the root-relative URL path they are served at. */
+export function readPublicFiles(files: ProjectFile[]): Record<string, PublicFile> {
+  const publicFiles: Record<string, PublicFile> = {}
+  for (const file of files.filter((f) => isPublicFile(f.path))) {
+    const mimeType =
+      fileMimeType(file) ?? TEXT_TYPES[file.path.split(".").pop()!.toLowerCase()] ?? "application/octet-stream"
+    publicFiles[file.path.slice("public".length)] = {
+      mimeType,
+      content: file.content,
+      encoding: file.encoding ?? "utf8",
+    }
+  }
+  return publicFiles
+}
+
+// Runs inside the preview iframe before any module is evaluated.
+export const PUBLIC_RUNTIME = String.raw`
+(function () {
+  var files = JSON.parse(document.getElementById('preview-public').textContent);
+  var base = new URL(document.baseURI);
+  var urls = {};
+
+  Object.keys(files).forEach(function (path) {
+    var file = files[path];
+    var data = file.content;
+    if (file.encoding === 'base64') {
+      var binary = atob(data);
+      data = new Uint8Array(binary.length);
+      for (var i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+    }
+    urls[path] = URL.createObjectURL(new Blob([data], { type: file.mimeType }));
+  });
+
+  // The URL to load instead of a reference to a public file or a sized
+  // placeholder, or null for anything else
+  function resolve(url) {
+    if (typeof url !== 'string' || url === '' || /^(blob|data):/.test(url)) return null;
+    var parsed;
+    try {
+      parsed = new URL(url, base);
+    } catch (error) {
+      return null;
+    }
+    if (parsed.origin !== base.origin) return null;
+    if (/^\/placeholder\.svg$/.test(parsed.pathname) && /[?&](width|height)=/.test(parsed.search)) {
+      return base.origin + '/api/placeholder' + parsed.search;
+    }
+    var path;
+    try {
+      path = decodeURIComponent(parsed.pathname);
+    } catch (error) {
+      return null;
+    }
+    return urls[path] ? urls[path] + parsed.hash : null;
+  }
+
+  function rewriteUrl(url) {
+    return resolve(url) || url;
+  }
+
+  function rewriteCss(css) {
+    return css.replace(/url\(\s*(['"]?)([^'")]*)\1\s*\)/g, function (match, quote, url) {
+      var resolved = resolve(url.trim());
+      return resolved ? 'url("' + resolved + '")' : match;
+    });
+  }
+
+  function rewriteSrcset(srcset) {
+    return srcset.split(',').map(function (candidate) {
+      var parts = candidate.trim().split(/\s+/);
+      parts[0] = rewriteUrl(parts[0]);
+      return parts.join(' ');
+    }).join(', ');
+  }
+
+  var ATTRIBUTES = {
+    src: rewriteUrl,
+    href: rewriteUrl,
+    poster: rewriteUrl,
+    srcset: rewriteSrcset,
+    style: rewriteCss,
+  };
+
+  function rewriteAttribute(element, name) {
+    var value = element.getAttribute(name);
+    if (value === null) return;
+    var rewritten = ATTRIBUTES[name](value);
+    if (rewritten !== value) element.setAttribute(name, rewritten);
+  }
+
+  function rewriteStyle(style) {
+    var rewritten = rewriteCss(style.textContent);
+    if (rewritten !== style.textContent) style.textContent = rewritten;
+  }
+
+  function rewriteTree(node) {
+    if (node.nodeType !== 1) return;
+    var elements = [node].concat(Array.prototype.slice.call(node.querySelectorAll('*')));
+    elements.forEach(function (element) {
+      if (element.tagName === 'STYLE') rewriteStyle(element);
+      Object.keys(ATTRIBUTES).forEach(function (name) {
+        rewriteAttribute(element, name);
+      });
+    });
+  }
+
+  new MutationObserver(function (mutations) {
+    mutations.forEach(function (mutation) {
+      if (mutation.type === 'attributes') {
+        rewriteAttribute(mutation.target, mutation.attributeName);
+      } else if (mutation.type === 'characterData') {
+        var parent = mutation.target.parentNode;
+        if (parent && parent.tagName === 'STYLE') rewriteStyle(parent);
+      } else {
+        if (mutation.target.tagName === 'STYLE') rewriteStyle(mutation.target);
+        Array.prototype.forEach.call(mutation.addedNodes, rewriteTree);
+      }
+    });
+  }).observe(document.documentElement, {
+    subtree: true,
+    childList: true,
+    characterData: true,
+    attributes: true,
+    attributeFilter: Object.keys(ATTRIBUTES),
+  });
+  rewriteTree(document.documentElement);
+
+  var fetch = window.fetch;
+  window.fetch = function (input, init) {
+    if (input instanceof Request) {
+      var resolved = resolve(input.url);
+      return fetch.call(this, resolved ? new Request(resolved, input) : input, init);
+    }
+    return fetch.call(this, rewriteUrl(String(input)), init);
+  };
+
+  var open = XMLHttpRequest.prototype.open;
+  XMLHttpRequest.prototype.open = function (method, url) {
+    var args = Array.prototype.slice.call(arguments);
+    args[1] = rewriteUrl(String(url));
+    return open.apply(this, args);
+  };
+})();
+`
@@ -0,0 +1,174 @@
+import { toModuleId } from "@/lib/preview/module-id"
+import { vendorVersions } from "@/lib/preview/vendor"
+
+// ---------------------------------------------------------------------------
+// React runtime selection ----------------------------------------------------
+// ---------------------------------------------------------------------------
+interface ProjectFile {
+  path: string
+  content: string
+  type: string
+}
+
+export interface ReactRuntime {
+  /** Vendored React/ReactDOM version the preview loads. */
+  version: string
+  /** The `react` range from the project's package.json, if any. */
+  requested: string | null
+  /** Set when the requested version could not be honored. */
+  warning: string | null
+}
+
+/** Used when the project does not say which React it targets. */
+export const DEFAULT_REACT_VERSION = "18.3.1"
+
+// ---------------------------------------------------------------------------
+// Version ranges -------------------------------------------------------------
+// ---------------------------------------------------------------------------
+// Enough of npm's range syntax to check a vendored version against a
+// package.json: `||` alternatives of comparators (`>=`, `<`, `=`, ...), caret
+// and tilde ranges, x-ranges such as `18.x`, and hyphen ranges. Prerelease
+// tags are ignored.
+
+type Version = [number, number, number]
+/** A version as written in a range; `18.x` and `18` leave the later parts open. */
+type LooseVersion = [number | null, number | null, number | null]
+type Comparator = { op: "<" | "<=" | ">" | ">=" | "="; version: Version }
+
+const compare = (a: Version, b: Version): number => a[0] - b[0] || a[1] - b[1] || a[2] - b[2]
+
+const parseVersion = (version: string): Version =>
+  version.split(".").map((part) => Number.parseInt(part, 10)) as Version
+
+const parseLoose = (text: string): LooseVersion | null => {
+  const match = text.match(/^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-[\w.-]+)?(?:\+[\w.-]+)?$/)
+  if (!match) return null
+  const parts = match.slice(1, 4).map((part) => (part === undefined || /[xX*]/.test(part) ? null : Number(part)))
+  // Nothing after an open part counts: `18.x.5` is `18.x`
+  const open = parts.indexOf(null)
+  return (open === -1 ? parts : parts.map((part, i) => (i >= open ? null : part))) as LooseVersion
+}
+
+const lowest = (p: LooseVersion): Version => [p[0] ?? 0, p[1] ?? 0, p[2] ?? 0]
+
+/** The first version past a loose one: `18` → 19.0.0, `18.2` → 18.3.0. */
+const pastLoose = (p: LooseVersion): Version =>
+  p[1] === null ? [p[0]! + 1, 0, 0] : p[2] === null ? [p[0]!, p[1] + 1, 0] : [p[0]!, p[1], p[2] + 1]
+
+const toComparators = (op: string, p: LooseVersion): Comparator[] => {
+  if (p[0] === null) return op === "<" || op === ">" ? [{ op: "<", version: [0, 0, 0] }] : []
+  const exact = p[2] !== null
+  switch (op) {
+    case "^": {
+      const upper: Version =
+        p[0] > 0 || p[1] === null ? [p[0] + 1, 0, 0] : p[1] > 0 || p[2] === null ? [0, p[1] + 1, 0] : [0, 0, p[2]! + 1]
+      return [
+        { op: ">=", version: lowest(p) },
+        { op: "<", version: upper },
+      ]
+    }
+    case "~":
+      return [
+        { op: ">=", version: lowest(p) },
+        { op: "<", version: p[1] === null ? [p[0] + 1, 0, 0] : [p[0], p[1] + 1, 0] },
+      ]
+    case ">":
+      return [{ op: exact ? ">" : ">=", version: exact ? lowest(p) : pastLoose(p) }]
+    case "<=":
+      return [{ op: exact ? "<=" : "<", version: exact ? lowest(p) : pastLoose(p) }]
+    case ">=":
+    case "<":
+      return [{ op, version: lowest(p) }]
+    default:
+      return exact
+        ? [{ op: "=", version: lowest(p) }]
+        : [
+            { op: ">=", version: lowest(p) },
+            { op: "<", version: pastLoose(p) },
+          ]
+  }
+}
+
+/** One `||` alternative of a range, or null when it is not a range. */
+const parseComparators = (set: string): Comparator[] | null => {
+  const hyphen = set.match(/^(\S+)\s+-\s+(\S+)$/)
+  if (hyphen) {
+    const [from, to] = [parseLoose(hyphen[1]), parseLoose(hyphen[2])]
+    if (!from || !to) return null
+    return [...toComparators(">=", from), ...toComparators("<=", to)]
+  }
+  const comparators: Comparator[] = []
+  // Operators may be separated from their version: `>= 16.8`
+  for (const token of set.replace(/(<=|>=|[<>=^~])\s+/g, "$1").split(/\s+/).filter(Boolean)) {
+    const match = token.match(/^(<=|>=|[<>=^~])?=?(.*)$/)!
+    const partial = parseLoose(match[2] || "*")
+    if (!partial) return null
+    comparators.push(...toComparators(match[1] ?? "=", partial))
+  }
+  return comparators
+}
+
+const COMPARE: Record<Comparator["op"], (difference: number) => boolean> = {
+  "<": (d) => d < 0,
+  "<=": (d) => d <= 0,
+  ">": (d) => d > 0,
+  ">=": (d) => d >= 0,
+  "=": (d) => d === 0,
+}
+
+/** Whether `version` is in `range`; null when the range cannot be read. */
+export function satisfies(version: string, range: string): boolean | null {
+  const sets = range.split("||").map((set) => parseComparators(set.trim()))
+  if (sets.some((set) => set === null)) return null
+  const parsed = parseVersion(version)
+  return sets.some((set) => set!.every(({ op, version: bound }) => COMPARE[op](compare(parsed, bound))))
+}
+
+// ---------------------------------------------------------------------------
+// Selection ------------------------------------------------------------------
+// ---------------------------------------------------------------------------
+
+const major = (version: string): number => Number.parseInt(version, 10)
+
+const readReactRange = (files: ProjectFile[]): { range: string | null; warning: string | null } => {
+  const manifest = files
+    .map((f) => ({ id: toModuleId(f.path), content: f.content }))
+    .filter((f) => f.id.split("/").pop() === "package.json")
+    .sort((a, b) => a.id.split("/").length - b.id.split("/").length)[0]
+  if (!manifest) return { range: null, warning: null }
+
+  try {
+    const json = JSON.parse(manifest.content)
+    const range = json.dependencies?.react ?? json.devDependencies?.react ?? json.peerDependencies?.react
+    return { range: typeof range === "string" ? range.trim() : null, warning: null }
+  } catch {
+    return { range: null, warning: `${manifest.id} is not valid JSON; using React ${DEFAULT_REACT_VERSION}` }
+  }
+}
+
+/**
+ * Picks the newest vendored React build in the range of the project's
+ * package.json `react` dependency. Tags such as `latest` or `rc` select the
+ * newest build. When no build is in the range, one of the same major version
+ * or else the default is used, with a warning.
+ */
+export function selectReactRuntime(files: ProjectFile[]): ReactRuntime {
+  const { range, warning } = readReactRange(files)
+  if (!range) return { version: DEFAULT_REACT_VERSION, requested: null, warning }
+
+  const versions = [...vendorVersions("react")].sort((a, b) => compare(parseVersion(b), parseVersion(a)))
+  if (/^(latest|next|canary|rc|beta)$/i.test(range)) {
+    return { version: versions[0], requested: range, warning: null }
+  }
+
+  const match = versions.find((v) => satisfies(v, range))
+  if (match) return { version: match, requested: range, warning: null }
+
+  const requestedMajor = range.match(/\d+/)?.[0]
+  const fallback = versions.find((v) => major(v) === Number(requestedMajor)) ?? DEFAULT_REACT_VERSION
+  return {
+    version: fallback,
+    requested: range,
+    warning: `React ${range} is not available in the preview (have ${versions.join(", ")}); using ${fallback}`,
+  }
+}
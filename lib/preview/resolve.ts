@@ -0,0 +1,129 @@
+import ts from "typescript"
+import { toModuleId } from "@/lib/preview/module-id"
+
+// ---------------------------------------------------------------------------
+// Specifier resolution -------------------------------------------------------
+// ---------------------------------------------------------------------------
+interface ProjectFile {
+  path: string
+  content: string
+  type: string
+}
+
+export const SOURCE_EXTENSIONS = [".tsx", ".ts", ".jsx", ".js"]
+
+export const dirname = (id: string): string => id.split("/").slice(0, -1).join("/")
+
+const join = (dir: string, path: string): string => toModuleId(dir ? `${dir}/${path}` : path)
+
+const candidatesFor = (base: string): string[] => {
+  const candidates = [base, ...SOURCE_EXTENSIONS.map((ext) => base + ext)]
+  // TypeScript ESM style: `./Button.js` refers to `Button.ts(x)`.
+  const jsExtension = base.match(/\.jsx?$/)
+  if (jsExtension) {
+    const stem = base.slice(0, -jsExtension[0].length)
+    candidates.push(`${stem}.tsx`, `${stem}.ts`)
+  }
+  candidates.push(...SOURCE_EXTENSIONS.map((ext) => `${base}/index${ext}`))
+  return candidates
+}
+
+/** Finds the module id a path refers to, inferring extensions and `index` files. */
+export const resolveFile = (base: string, ids: Set<string>): string | null =>
+  candidatesFor(base).find((candidate) => ids.has(candidate)) ?? null
+
+// ---------------------------------------------------------------------------
+// Path aliases ---------------------------------------------------------------
+// ---------------------------------------------------------------------------
+export interface PathAliases {
+  /** Directory non-relative specifiers are looked up in, if `baseUrl` is set. */
+  baseUrl: string | null
+  /** `compilerOptions.paths` entries with targets already relative to the project root. */
+  paths: { pattern: string; targets: string[] }[]
+}
+
+/** Used when the project ships no tsconfig/jsconfig `paths`, as Next.js scaffolds it. */
+const DEFAULT_PATHS = [{ pattern: "@/*", targets: ["*", "src/*"] }]
+
+const CONFIG_NAMES = ["tsconfig.json", "jsconfig.json"]
+
+const basename = (id: string): string => id.split("/").pop() ?? id
+
+/**
+ * Reads `baseUrl` and `paths` from the project's top-most tsconfig.json or
+ * jsconfig.json, falling back to an `@/*` alias for the project root.
+ */
+export function readPathAliases(files: ProjectFile[]): PathAliases {
+  const config = files
+    .map((f) => ({ id: toModuleId(f.path), content: f.content }))
+    .filter((f) => CONFIG_NAMES.includes(basename(f.id)))
+    .sort(
+      (a, b) =>
+        a.id.split("/").length - b.id.split("/").length ||
+        CONFIG_NAMES.indexOf(basename(a.id)) - CONFIG_NAMES.indexOf(basename(b.id)),
+    )[0]
+  if (!config) return { baseUrl: null, paths: DEFAULT_PATHS }
+
+  const { config: json } = ts.parseConfigFileTextToJson(config.id, config.content)
+  const options = json?.compilerOptions ?? {}
+  const configDir = dirname(config.id)
+  const baseUrl = typeof options.baseUrl === "string" ? join(configDir, options.baseUrl) : null
+
+  const entries = options.paths && typeof options.paths === "object" ? Object.entries(options.paths) : []
+  const paths = entries
+    .filter((entry): entry is [string, string[]] => Array.isArray(entry[1]))
+    .map(([pattern, targets]) => ({
+      pattern,
+      targets: targets.map((target) => join(baseUrl ?? configDir, target)),
+    }))
+
+  return { baseUrl, paths: paths.length > 0 ? paths : DEFAULT_PATHS }
+}
+
+/** Matches a specifier against a `paths` pattern, returning the text captured by `*`. */
+const matchPattern = (pattern: string, specifier: string): string | null => {
+  const star = pattern.indexOf("*")
+  if (star === -1) return pattern === specifier ? "" : null
+  const prefix = pattern.slice(0, star)
+  const suffix = pattern.slice(star + 1)
+  if (specifier.length < prefix.length + suffix.length) return null
+  if (!specifier.startsWith(prefix) || !specifier.endsWith(suffix)) return null
+  return specifier.slice(prefix.length, specifier.length - suffix.length)
+}
+
+const resolveAlias = (specifier: string, aliases: PathAliases, ids: Set<string>): string | null => {
+  // TypeScript picks the pattern with the longest prefix before `*`.
+  const matches = aliases.paths
+    .map((entry) => ({ entry, captured: matchPattern(entry.pattern, specifier) }))
+    .filter((m): m is { entry: PathAliases["paths"][number]; captured: string } => m.captured !== null)
+    .sort((a, b) => b.entry.pattern.indexOf("*") - a.entry.pattern.indexOf("*"))
+
+  for (const { entry, captured } of matches) {
+    for (const target of entry.targets) {
+      const resolved = resolveFile(toModuleId(target.replace("*", captured)), ids)
+      if (resolved) return resolved
+    }
+  }
+
+  return aliases.baseUrl !== null ? resolveFile(join(aliases.baseUrl, specifier), ids) : null
+}
+
+export interface ResolveContext {
+  ids: Set<string>
+  aliases: PathAliases
+}
+
+const isRelative = (specifier: string): boolean =>
+  specifier.startsWith("./") || specifier.startsWith("../") || specifier.startsWith("/")
+
+/**
+ * Resolves an import specifier against the project's module ids: relative
+ * paths from the importing file, everything else through the path aliases.
+ * Returns `null` for package imports and for files that do not exist.
+ */
+export function resolveImport(from: string, specifier: string, { ids, aliases }: ResolveContext): string | null {
+  if (isRelative(specifier)) {
+    return resolveFile(toModuleId(specifier.startsWith("/") ? specifier : `${dirname(from)}/${specifier}`), ids)
+  }
+  return resolveAlias(specifier, aliases, ids)
+}
@@ -0,0 +1,191 @@
+// ---------------------------------------------------------------------------
+// Preview module runtime -----------------------------------------------------
+// ---------------------------------------------------------------------------
+// Runs inside the preview iframe. Reads the module manifest produced by
+// `buildModules`, loads the package store modules it needs, then compiles each
+// module's JSX with Babel on first require and evaluates it in its own function
+// scope.
+
+// Globals older payloads rely on without importing them, and the wrapper the
+// transpiler puts around server actions. They live in an outer scope so a
+// module can still declare its own `cn` or `useState`.
+const PRELUDE = `
+  var { useState, useEffect, useRef, useMemo, useCallback, useReducer,
+    useContext, createContext, Fragment, Component, PureComponent,
+    forwardRef, memo, lazy, Suspense } = React;
+  var cn = (...classes) => classes.filter(Boolean).join(' ');
+  var clsx = cn;
+  var classNames = cn;
+  var __previewAction = (name, fn, file) => window.__preview.action(name, fn, file);
+`
+
+export const MODULE_RUNTIME = String.raw`
+(function () {
+  var manifest = JSON.parse(document.getElementById('preview-modules').textContent);
+  var modules = manifest.modules;
+  var cache = {};
+  var loading = [];
+
+  var classNames = function () {
+    return Array.prototype.slice.call(arguments).filter(Boolean).join(' ');
+  };
+
+  // Package store modules are added once loaded
+  var externals = {
+    'react': React,
+    'react-dom': ReactDOM,
+    'react-dom/client': ReactDOM,
+    'classnames': classNames,
+  };
+
+  var PRELUDE = ${JSON.stringify(PRELUDE)};
+
+  function load(id, from) {
+    var cached = cache[id];
+    if (cached) {
+      if (cached.loaded) return cached.exports;
+      throw new Error(
+        'Circular import: ' + loading.concat(id).join(' -> ') + ' (imported from ' + from + ')'
+      );
+    }
+
+    var mod = modules[id];
+    if (mod.error) throw new SyntaxError(mod.error);
+
+    var module = { id: id, exports: {}, loaded: false };
+    cache[id] = module;
+    if (mod.css !== undefined) injectStyle(id, mod.css);
+    if (mod.asset) module.exports = assetExports(mod.asset);
+    if (mod.code !== null) {
+      var compiled = Babel.transform(mod.code, { presets: ['react'], filename: id }).code;
+      var factory = new Function(
+        'require', 'module', 'exports',
+        PRELUDE + '\nreturn function () {\n' + compiled + '\n};\n//# sourceURL=' + id
+      );
+      loading.push(id);
+      try {
+        factory(requireFrom(id), module, module.exports)();
+      } catch (error) {
+        delete cache[id];
+        throw error;
+      } finally {
+        loading.pop();
+      }
+    }
+    module.loaded = true;
+    return module.exports;
+  }
+
+  function injectStyle(id, css) {
+    var style = document.createElement('style');
+    style.setAttribute('data-module', id);
+    style.textContent = css;
+    document.head.appendChild(style);
+  }
+
+  // Assets export an object URL; SVGs also export a component rendering them
+  function assetExports(asset) {
+    var data = asset.encoding === 'base64' ? decodeBase64(asset.content) : asset.content;
+    var url = URL.createObjectURL(new Blob([data], { type: asset.mimeType }));
+    var exports = { __esModule: true, default: url };
+    if (asset.mimeType === 'image/svg+xml') exports.ReactComponent = svgComponent(asset.content);
+    return exports;
+  }
+
+  function decodeBase64(content) {
+    var binary = atob(content);
+    var bytes = new Uint8Array(binary.length);
+    for (var i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+  }
+
+  function svgComponent(markup) {
+    var svg = new DOMParser().parseFromString(markup, 'image/svg+xml').documentElement;
+    var attributes = {};
+    Array.prototype.forEach.call(svg.attributes, function (attribute) {
+      var name = attribute.name;
+      if (name === 'class') attributes.className = attribute.value;
+      else if (name === 'style') attributes.style = styleObject(attribute.value);
+      else if (/^(data|aria)-/.test(name)) attributes[name] = attribute.value;
+      else attributes[name.replace(/[-:]([a-z])/g, function (_, c) { return c.toUpperCase(); })] = attribute.value;
+    });
+    var inner = svg.innerHTML;
+    return React.forwardRef(function SvgComponent(props, ref) {
+      return React.createElement('svg', Object.assign({}, attributes, props, {
+        ref: ref,
+        dangerouslySetInnerHTML: { __html: inner },
+      }));
+    });
+  }
+
+  function styleObject(css) {
+    var style = {};
+    css.split(';').forEach(function (declaration) {
+      var index = declaration.indexOf(':');
+      if (index === -1) return;
+      var property = declaration.slice(0, index).trim().replace(/-([a-z])/g, function (_, c) { return c.toUpperCase(); });
+      style[property] = declaration.slice(index + 1).trim();
+    });
+    return style;
+  }
+
+  function requireFrom(from) {
+    return function require(specifier) {
+      var id = modules[from].deps[specifier];
+      if (id) return load(id, from);
+      if (Object.prototype.hasOwnProperty.call(externals, specifier)) return externals[specifier];
+      if (/^[.\/]|^[@~]\//.test(specifier)) {
+        throw new Error('Module not found: "' + specifier + '" imported from ' + from);
+      }
+      throw new Error('Package "' + packageName(specifier) + '" is not available in the preview (imported from ' + from + ')');
+    };
+  }
+
+  function packageName(specifier) {
+    var parts = specifier.split('/');
+    return specifier[0] === '@' ? parts.slice(0, 2).join('/') : parts[0];
+  }
+
+  // Namespace objects are flagged as ES modules so TypeScript's interop
+  // helpers keep default exports intact. CommonJS packages only have a default
+  // export, which is handed out as-is so require() sees module.exports.
+  var ready = Promise.all(manifest.packages.map(function (specifier) {
+    return import(specifier).then(
+      function (namespace) {
+        var names = Object.keys(namespace);
+        externals[specifier] = names.length === 1 && names[0] === 'default'
+          ? namespace.default
+          : Object.assign({ __esModule: true }, namespace);
+      },
+      function (error) {
+        throw new Error('Failed to load package "' + specifier + '": ' + error.message);
+      }
+    );
+  }));
+
+  window.__preview = {
+    entries: manifest.entries,
+    entry: manifest.entry,
+    components: manifest.components,
+    bootstrap: manifest.bootstrap,
+    props: manifest.props,
+    routes: manifest.routes,
+    api: manifest.api,
+    path: manifest.path,
+    mocks: manifest.mocks,
+    stylesheets: manifest.stylesheets,
+    ready: ready,
+    require: function (id) {
+      return load(id, '(preview)');
+    },
+    // Registers a module that has no file or package behind it
+    provide: function (specifier, value) {
+      externals[specifier] = value;
+    },
+    // Replaces a stylesheet's CSS before it is injected
+    setStyle: function (id, css) {
+      modules[id].css = css;
+    },
+  };
+})();
+`
@@ -0,0 +1,73 @@
+import * as sass from "sass"
+import { toModuleId } from "@/lib/preview/module-id"
+import { dirname } from "@/lib/preview/resolve"
+import { TranspileError } from "@/lib/preview/transpile"
+
+// ---------------------------------------------------------------------------
+// Sass -----------------------------------------------------------------------
+// ---------------------------------------------------------------------------
+// `.scss` and `.sass` files are compiled with the JavaScript build of Dart Sass.
+// `@use`, `@forward` and `@import` resolve against the project's own files,
+// including `_partial` and `_index` files; nothing is fetched.
+
+export const isSass = (path: string): boolean => /\.s[ac]ss$/.test(path)
+
+/** Partials only exist to be `@use`d and are never compiled on their own. */
+export const isSassPartial = (path: string): boolean => /(^|\/)_[^/]*\.s[ac]ss$/.test(path)
+
+const PROJECT_SCHEME = "project:"
+
+const toUrl = (id: string): URL => new URL(`${PROJECT_SCHEME}/${id}`)
+
+const fromUrl = (url: URL): string => url.pathname.slice(1)
+
+const syntaxOf = (id: string): sass.Syntax =>
+  id.endsWith(".sass") ? "indented" : id.endsWith(".css") ? "css" : "scss"
+
+/** Files Sass would try for a load path, in its order of preference. */
+const candidates = (base: string): string[] => {
+  const dir = dirname(base)
+  const name = base.split("/").pop()!
+  const partial = dir ? `${dir}/_${name}` : `_${name}`
+  if (/\.(s[ac]ss|css)$/.test(base)) return [base, partial]
+  return [
+    ...["scss", "sass", "css"].flatMap((ext) => [`${base}.${ext}`, `${partial}.${ext}`]),
+    ...["scss", "sass", "css"].flatMap((ext) => [`${base}/_index.${ext}`, `${base}/index.${ext}`]),
+  ]
+}
+
+/**
+ * Compiles a Sass file to CSS. `sources` maps every project module id to its
+ * content. Throws a `TranspileError` naming the file and line that failed,
+ * which may be a partial the file loads.
+ */
+export function compileSass(id: string, sources: Map<string, string>): string {
+  const importer: sass.Importer<"sync"> = {
+    canonicalize(url, { containingUrl }) {
+      // Relative loads arrive already resolved against the loading file
+      const base = url.startsWith(PROJECT_SCHEME)
+        ? fromUrl(new URL(url))
+        : toModuleId(url.startsWith("/") ? url : `${dirname(containingUrl ? fromUrl(containingUrl) : id)}/${url}`)
+      const match = candidates(base).find((candidate) => sources.has(candidate))
+      return match ? toUrl(match) : null
+    },
+    load(canonicalUrl) {
+      const path = fromUrl(canonicalUrl)
+      return { contents: sources.get(path) ?? "", syntax: syntaxOf(path) }
+    },
+  }
+
+  try {
+    return sass.compileString(sources.get(id) ?? "", {
+      syntax: syntaxOf(id),
+      url: toUrl(id),
+      importer,
+      // Deprecation notices would only land in the host page's console
+      logger: sass.Logger.silent,
+    }).css
+  } catch (err) {
+    if (!(err instanceof sass.Exception)) throw err
+    const { url, start } = err.span
+    throw new TranspileError(url ? fromUrl(url) : id, start.line + 1, start.column + 1, err.sassMessage)
+  }
+}
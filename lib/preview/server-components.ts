@@ -0,0 +1,271 @@
+// ---------------------------------------------------------------------------
+// Server Components ----------------------------------------------------------
+// ---------------------------------------------------------------------------
+// There is no server behind the preview, so App Router code meant for one runs
+// in the iframe. An `async` component suspends until its promise settles and
+// then renders what it resolved to, so `loading` files and Suspense fallbacks
+// show meanwhile. Server actions run as local functions; each call is reported
+// to the host page, which lists it with its arguments and result. Before
+// React 19, a `<form action={fn}>` is submitted to its action by hand.
+// `revalidatePath` from next/cache renders the current route again with fresh
+// data; next/headers reads from an in-memory cookie store.
+
+// Runs inside the preview iframe after the module runtime and before anything
+// else wraps React.createElement.
+export const SERVER_RUNTIME = String.raw`
+(function () {
+  var preview = window.__preview;
+  var createElement = React.createElement;
+  var formActions = parseInt(React.version, 10) >= 19;
+
+  var ids = new WeakMap();
+  var nextId = 0;
+  function idOf(value) {
+    if (!ids.has(value)) ids.set(value, ++nextId);
+    return ids.get(value);
+  }
+
+  function isAsync(fn) {
+    return Object.prototype.toString.call(fn) === '[object AsyncFunction]';
+  }
+
+  // Props compared by value, so a parent rendering again after the promise
+  // settles finds the same result rather than starting over. Values with no
+  // value to compare (functions, DOM nodes, cycles) stand for themselves.
+  function propsKey(props) {
+    var ancestors = [];
+    function key(value) {
+      if (value === undefined) return 'undefined';
+      if (typeof value === 'function') return 'function:' + idOf(value);
+      if (typeof value === 'bigint') return 'bigint:' + value;
+      if (typeof value === 'symbol') return value.toString();
+      if (value === null || typeof value !== 'object') return JSON.stringify(value);
+      if (value instanceof Date) return 'date:' + value.getTime();
+      if (typeof value.toJSON === 'function') return 'json:' + key(value.toJSON());
+      if (typeof Node !== 'undefined' && value instanceof Node) return 'node:' + idOf(value);
+      if (ancestors.indexOf(value) !== -1) return 'cycle:' + idOf(value);
+
+      ancestors.push(value);
+      var result;
+      if (value.$$typeof) {
+        var type = typeof value.type === 'function' || typeof value.type === 'object'
+          ? 'component:' + idOf(value.type)
+          : String(value.type);
+        result = '<' + type + ' ' + key(value.key) + ' ' + key(value.props) + '>';
+      } else if (Array.isArray(value)) {
+        result = '[' + value.map(key).join(',') + ']';
+      } else if (value instanceof Map || value instanceof Set) {
+        result = (value instanceof Map ? 'map:' : 'set:') + key(Array.from(value));
+      } else {
+        result = '{' + Object.keys(value).sort().map(function (name) {
+          return JSON.stringify(name) + ':' + key(value[name]);
+        }).join(',') + '}';
+      }
+      ancestors.pop();
+      return result;
+    }
+    return key(props);
+  }
+
+  var serverComponents = new WeakMap();
+  var allResults = [];
+  var MAX_RESULTS = 50;
+
+  function serverComponent(Component) {
+    if (serverComponents.has(Component)) return serverComponents.get(Component);
+    var results = new Map();
+    allResults.push(results);
+
+    function ServerComponent(props) {
+      var key = propsKey(props);
+      var result = results.get(key);
+      if (!result) {
+        result = { status: 'pending' };
+        result.promise = Promise.resolve()
+          .then(function () { return Component(props); })
+          .then(
+            function (value) { result.status = 'done'; result.value = value; },
+            function (error) { result.status = 'error'; result.error = error; }
+          );
+        results.set(key, result);
+        if (results.size > MAX_RESULTS) results.delete(results.keys().next().value);
+      }
+      if (result.status === 'pending') throw result.promise;
+      if (result.status === 'error') {
+        // Rendering it again, after an error boundary resets, tries again
+        results.delete(key);
+        throw result.error;
+      }
+      return result.value === undefined ? null : result.value;
+    }
+    ServerComponent.displayName = Component.name || 'ServerComponent';
+    serverComponents.set(Component, ServerComponent);
+    return ServerComponent;
+  }
+
+  function formProps(props) {
+    var action = props.action;
+    var next = Object.assign({}, props, {
+      onSubmit: function (event) {
+        if (props.onSubmit) props.onSubmit(event);
+        if (event.defaultPrevented) return;
+        event.preventDefault();
+        var form = event.currentTarget;
+        Promise.resolve(action(new FormData(form))).then(
+          function () { form.reset(); },
+          function (error) {
+            // redirect() from next/navigation ends an action by navigating
+            var digest = error && error.digest;
+            if (typeof digest === 'string' && digest.indexOf('NEXT_REDIRECT;') === 0) {
+              preview.router.push(digest.slice('NEXT_REDIRECT;'.length));
+            } else {
+              console.error('Form action failed:', error);
+            }
+          }
+        );
+      },
+    });
+    delete next.action;
+    return next;
+  }
+
+  React.createElement = function (type, props) {
+    var rest = [].slice.call(arguments, 2);
+    if (typeof type === 'function' && isAsync(type)) {
+      return createElement.apply(null, [serverComponent(type), props].concat(rest));
+    }
+    if (type === 'form' && !formActions && props && typeof props.action === 'function') {
+      return createElement.apply(null, ['form', formProps(props)].concat(rest));
+    }
+    return createElement.apply(null, arguments);
+  };
+
+  function esModule(exports) {
+    return Object.assign({ __esModule: true }, exports);
+  }
+
+  // Server components fetch again when the route renders next
+  function revalidate() {
+    allResults.forEach(function (results) { results.clear(); });
+    if (preview.router) preview.router.refresh();
+  }
+
+  preview.provide('next/cache', esModule({
+    revalidatePath: revalidate,
+    revalidateTag: revalidate,
+    unstable_cache: function (fn) { return fn; },
+    unstable_noStore: function () {},
+  }));
+
+  var cookies = new Map();
+  var cookieStore = {
+    get: function (name) { return cookies.has(name) ? { name: name, value: cookies.get(name) } : undefined; },
+    getAll: function () {
+      return Array.from(cookies, function (entry) { return { name: entry[0], value: entry[1] }; });
+    },
+    has: function (name) { return cookies.has(name); },
+    set: function (name, value) {
+      if (typeof name === 'object') cookies.set(name.name, String(name.value));
+      else cookies.set(name, String(value));
+    },
+    delete: function (name) { cookies.delete(name); },
+  };
+
+  // Next 15 returns promises where Next 14 returned the objects; these work
+  // either way
+  function syncPromise(value) {
+    var promise = Promise.resolve(value);
+    Object.keys(value).forEach(function (key) {
+      promise[key] = typeof value[key] === 'function' ? value[key].bind(value) : value[key];
+    });
+    return promise;
+  }
+
+  preview.provide('next/headers', esModule({
+    cookies: function () { return syncPromise(cookieStore); },
+    headers: function () {
+      var headers = new Headers({ 'user-agent': navigator.userAgent });
+      return syncPromise({
+        get: function (name) { return headers.get(name); },
+        has: function (name) { return headers.has(name); },
+        forEach: function (callback) { headers.forEach(callback); },
+      });
+    },
+    draftMode: function () {
+      return syncPromise({ isEnabled: false, enable: function () {}, disable: function () {} });
+    },
+  }));
+
+  // ---- Server actions -----------------------------------------------------
+
+  // Arguments and results as JSON, which can cross to the host page
+  function loggable(value) {
+    try {
+      return JSON.parse(JSON.stringify(value === undefined ? null : value, function (key, item) {
+        if (typeof FormData !== 'undefined' && item instanceof FormData) {
+          var fields = {};
+          item.forEach(function (field, name) {
+            fields[name] = name in fields ? [].concat(fields[name], field) : field;
+          });
+          return fields;
+        }
+        if (typeof File !== 'undefined' && item instanceof File) {
+          return 'File(' + item.name + ', ' + item.size + ' bytes)';
+        }
+        if (typeof item === 'function') return '[Function ' + (item.name || 'anonymous') + ']';
+        if (typeof item === 'bigint') return item.toString();
+        if (item && (item instanceof Event || item.nativeEvent)) return '[Event ' + item.type + ']';
+        if (typeof Node !== 'undefined' && item instanceof Node) return '[' + item.nodeName + ']';
+        return item;
+      }));
+    } catch (error) {
+      return String(value);
+    }
+  }
+
+  // Function props of the rendered component report their arguments the same way
+  preview.loggable = loggable;
+
+  function report(call) {
+    if (call.status === 'error') {
+      console.error('[server action] ' + call.name + ' (' + call.file + ') failed:', call.error);
+    }
+    if (window.parent !== window) window.parent.postMessage({ type: 'preview:action', call: call }, '*');
+  }
+
+  var session = Date.now().toString(36);
+  var calls = 0;
+
+  preview.action = function (name, fn, file) {
+    return function () {
+      var args = [].slice.call(arguments);
+      var started = Date.now();
+      var call = {
+        id: session + '-' + ++calls,
+        name: name,
+        file: file,
+        args: loggable(args),
+        time: new Date(started).toISOString(),
+        status: 'pending',
+      };
+      report(call);
+      var settle = function (status, detail) {
+        report(Object.assign({}, call, detail, { status: status, duration: Date.now() - started }));
+      };
+
+      var result;
+      try {
+        result = fn.apply(this, args);
+      } catch (error) {
+        settle('error', { error: String((error && error.message) || error) });
+        throw error;
+      }
+      Promise.resolve(result).then(
+        function (value) { settle('done', { result: loggable(value) }); },
+        function (error) { settle('error', { error: String((error && error.message) || error) }); }
+      );
+      return result;
+    };
+  };
+})();
+`
@@ -0,0 +1,95 @@
+import typography from "@tailwindcss/typography"
+import postcss, { CssSyntaxError, type AcceptedPlugin } from "postcss"
+import type { Config } from "tailwindcss"
+import processTailwindFeatures from "tailwindcss/lib/processTailwindFeatures"
+import { normalizeConfig } from "tailwindcss/lib/util/normalizeConfig"
+import resolveConfig from "tailwindcss/resolveConfig"
+import animate from "tailwindcss-animate"
+import type { TailwindPlugin } from "@/lib/preview/tailwind"
+
+// ---------------------------------------------------------------------------
+// Tailwind compiler ----------------------------------------------------------
+// ---------------------------------------------------------------------------
+// Server side of the preview's Tailwind support. Every request gets a fresh
+// compiler context, so classes from one project never leak into another.
+
+const PLUGINS: Record<TailwindPlugin, unknown> = {
+  "tailwindcss-animate": animate,
+  "@tailwindcss/typography": typography,
+}
+
+export interface TailwindRequest {
+  /** The project's config as JSON, without `content` or `plugins`. */
+  config: Record<string, unknown>
+  plugins: { name: TailwindPlugin; options?: Record<string, unknown> }[]
+  /** Stylesheets by module id; the default directives have none. */
+  stylesheets: { id: string | null; css: string }[]
+  /** File contents scanned for class names. */
+  content: string[]
+}
+
+/** Characters of CSS, content and config one request may compile. */
+export const MAX_TAILWIND_INPUT = 8_000_000
+
+const toPlugin = ({ name, options }: TailwindRequest["plugins"][number]) => {
+  const plugin = PLUGINS[name]
+  return options && typeof plugin === "function" ? plugin(options) : plugin
+}
+
+export interface TailwindResult {
+  /** Compiled CSS by index of the request's stylesheets; ones that failed are returned as sent. */
+  stylesheets: string[]
+  /** Why stylesheets failed, one message each. */
+  errors: string[]
+}
+
+/**
+ * Compiles each of a project's stylesheets with its own Tailwind config. They
+ * share one compiler context, as files processed by the same PostCSS setup do.
+ * A stylesheet that fails does not keep the others from compiling.
+ */
+export async function compileTailwind({
+  config,
+  plugins,
+  stylesheets,
+  content,
+}: TailwindRequest): Promise<TailwindResult> {
+  const size =
+    JSON.stringify(config).length +
+    stylesheets.reduce((sum, { css }) => sum + css.length, 0) +
+    content.reduce((sum, raw) => sum + raw.length, 0)
+  if (size > MAX_TAILWIND_INPUT) {
+    throw new Error(`Tailwind input is ${size} characters, more than the ${MAX_TAILWIND_INPUT} one request may compile`)
+  }
+
+  const tailwindConfig = normalizeConfig(
+    resolveConfig({ ...config, content: [], plugins: plugins.map(toPlugin) } as Config),
+  )
+  const changedContent = content.map((raw) => ({ content: raw, extension: "html" }))
+
+  let context: unknown
+  const tailwind: AcceptedPlugin = {
+    postcssPlugin: "tailwindcss",
+    Once: (root, { result }) =>
+      processTailwindFeatures(({ createContext }) => () => (context ??= createContext(tailwindConfig, changedContent)))(
+        root,
+        result,
+      ),
+  }
+
+  const processor = postcss([tailwind])
+  const result: TailwindResult = { stylesheets: [], errors: [] }
+  for (const { id, css } of stylesheets) {
+    try {
+      result.stylesheets.push((await processor.process(css, { from: undefined })).css)
+    } catch (err) {
+      result.stylesheets.push(css)
+      result.errors.push(
+        err instanceof CssSyntaxError
+          ? `${id ?? "tailwind"}:${err.line}:${err.column} - ${err.reason}`
+          : `${id ?? "tailwind"}: ${err instanceof Error ? err.message : String(err)}`,
+      )
+    }
+  }
+  return result
+}
@@ -0,0 +1,17 @@
+// Tailwind's public PostCSS plugin caches compiler contexts per config for the
+// life of the process, so the preview compiler drives these internals directly.
+declare module "tailwindcss/lib/processTailwindFeatures" {
+  import type { Result, Root } from "postcss"
+
+  interface SetupContext {
+    createContext(tailwindConfig: unknown, changedContent: { content: string; extension: string }[]): unknown
+  }
+
+  export default function processTailwindFeatures(
+    setupContext: (tailwind: SetupContext) => (root: Root, result: Result) => unknown,
+  ): (root: Root, result: Result) => Promise<void>
+}
+
+declare module "tailwindcss/lib/util/normalizeConfig" {
+  export function normalizeConfig<T>(config: T): T
+}
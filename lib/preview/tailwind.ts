@@ -0,0 +1,226 @@
+import type { PreviewModule } from "@/lib/preview/modules"
+
+// ---------------------------------------------------------------------------
+// Tailwind CSS ---------------------------------------------------------------
+// ---------------------------------------------------------------------------
+// Tailwind is compiled by the app's /api/tailwind route rather than in the
+// browser. The project's tailwind.config is evaluated inside the preview iframe
+// like any other module and sent to the route as JSON, so project code never
+// runs on the server. Plugins cannot travel as JSON; the ones listed here are
+// stood in for by name and applied by the compiler.
+
+interface ProjectFile {
+  path: string
+  content: string
+  type: string
+}
+
+export const TAILWIND_PLUGINS = ["tailwindcss-animate", "@tailwindcss/typography"] as const
+
+export type TailwindPlugin = (typeof TAILWIND_PLUGINS)[number]
+
+/** Files whose contents are scanned for class names. */
+const isContentFile = (path: string): boolean => /\.((t|j)sx?|html|mdx?)$/.test(path)
+
+/** Added ahead of the project's stylesheets when none of them uses Tailwind. */
+const DEFAULT_DIRECTIVES = "@tailwind base;\n@tailwind components;\n@tailwind utilities;\n"
+
+export interface TailwindInput {
+  /** Module id of the project's tailwind.config, if it ships one. */
+  config: string | null
+  /**
+   * Every global stylesheet, compiled one by one like a bundler would. The
+   * entry without an id holds the default directives.
+   */
+  stylesheets: { id: string | null; css: string }[]
+  content: string[]
+  /** Set when the project imports the UI fallback, whose classes and theme are added. */
+  ui: boolean
+}
+
+/**
+ * Collects what the Tailwind compiler needs from a project's modules.
+ * `stylesheets` lists the global stylesheets the preview may inject.
+ */
+export function readTailwindInput(
+  files: ProjectFile[],
+  modules: Record<string, PreviewModule>,
+  stylesheets: string[],
+  packages: string[],
+): TailwindInput {
+  const [config = null] = Object.keys(modules)
+    .filter((id) => /(^|\/)tailwind\.config\.(t|j)s$/.test(id))
+    .sort((a, b) => a.split("/").length - b.split("/").length)
+  const sources: TailwindInput["stylesheets"] = stylesheets.map((id) => ({ id, css: modules[id].css ?? "" }))
+  if (!sources.some((s) => /@tailwind\s/.test(s.css))) sources.unshift({ id: null, css: DEFAULT_DIRECTIVES })
+
+  return {
+    config,
+    stylesheets: sources,
+    content: files.filter((f) => isContentFile(f.path)).map((f) => f.content),
+    ui: packages.some((specifier) => specifier.startsWith("@/")),
+  }
+}
+
+// Runs inside the preview iframe after the module runtime. Sets
+// `window.__preview.styles`, which settles once every stylesheet module holds
+// its compiled CSS, or its CSS as written when it does not compile. It never
+// rejects: problems are posted to the host page as \`preview:warning\`.
+export const TAILWIND_RUNTIME = String.raw`
+(function () {
+  var input = JSON.parse(document.getElementById('preview-tailwind').textContent);
+  var preview = window.__preview;
+
+  // A plugin stand-in records its name, and its options when called with some
+  ${JSON.stringify(TAILWIND_PLUGINS)}.forEach(function (name) {
+    var plugin = function (options) {
+      return { tailwindPlugin: name, options: options };
+    };
+    plugin.tailwindPlugin = name;
+    preview.provide(name, plugin);
+  });
+
+  // Copies the config into plain JSON, noting what had to be left out
+  function toJson(value, path, skipped) {
+    if (typeof value === 'function' || value instanceof RegExp) {
+      skipped.push(path);
+      return undefined;
+    }
+    if (Array.isArray(value)) {
+      return value
+        .map(function (item, index) { return toJson(item, path + '[' + index + ']', skipped); })
+        .filter(function (item) { return item !== undefined; });
+    }
+    if (value === null || typeof value !== 'object') return value;
+    var result = {};
+    Object.keys(value).forEach(function (key) {
+      var item = toJson(value[key], path ? path + '.' + key : key, skipped);
+      if (item !== undefined) result[key] = item;
+    });
+    return result;
+  }
+
+  // Style problems do not stop the preview; the host page shows them
+  function warn(message) {
+    if (window.parent !== window) window.parent.postMessage({ type: 'preview:warning', message: message }, '*');
+    else console.warn(message);
+  }
+
+  // The project's config, or null when it has none that loads
+  function readConfig(skipped) {
+    if (!input.config) return null;
+    var exports;
+    try {
+      exports = preview.require(input.config);
+    } catch (error) {
+      // Like the Tailwind CDN, the page is still styled, just without the config
+      var missing = /^Package "(.+)" is not available/.exec(error.message);
+      warn(missing
+        ? 'Tailwind: plugin ' + missing[1] + ' is not available in the preview; compiling without ' + input.config
+        : 'Tailwind: ' + input.config + ' failed (' + error.message + '); compiling with the default config');
+      return null;
+    }
+    var config = (exports && exports.__esModule ? exports.default : exports) || {};
+
+    var plugins = [];
+    (config.plugins || []).forEach(function (plugin, index) {
+      if (plugin && plugin.tailwindPlugin) {
+        plugins.push({ name: plugin.tailwindPlugin, options: toJson(plugin.options, 'options', []) });
+      } else {
+        skipped.push('plugins[' + index + ']');
+      }
+    });
+    var rest = Object.assign({}, config);
+    delete rest.plugins;
+    delete rest.content;
+    return { config: toJson(rest, '', skipped), plugins: plugins };
+  }
+
+  // The UI fallback components use the theme tokens of this repository's
+  // shadcn setup, and so do the stylesheets of generated projects that come
+  // without a config (\`@apply border-border\`). Its theme extension goes under
+  // the project's, and its CSS variables ahead of the project's base layer, so
+  // the project's own win.
+  function withTheme(request, theme) {
+    var own = (request.config.theme && request.config.theme.extend) || {};
+    var extend = {};
+    Object.keys(theme.extend).concat(Object.keys(own)).forEach(function (key) {
+      extend[key] = Object.assign({}, theme.extend[key], own[key]);
+    });
+    request.config = Object.assign({}, request.config, {
+      theme: Object.assign({}, request.config.theme, { extend: extend }),
+    });
+    if (!request.plugins.some(function (plugin) { return plugin.name === 'tailwindcss-animate'; })) {
+      request.plugins.push({ name: 'tailwindcss-animate' });
+    }
+    var base = request.stylesheets.filter(function (s) { return /@tailwind\s+base\s*;/.test(s.css); })[0];
+    if (base) {
+      request.stylesheets = request.stylesheets.map(function (s) {
+        if (s !== base) return s;
+        var css = s.css.replace(/@tailwind\s+base\s*;/, function (directive) {
+          return directive + '\n@layer base {\n' + theme.css + '\n}\n';
+        });
+        return { id: s.id, css: css };
+      });
+    } else {
+      // No preflight to go with: the variables go in the document's own style
+      // element, ahead of the project's stylesheets
+      request.stylesheets = [{ id: null, css: theme.css }].concat(request.stylesheets);
+    }
+    return request;
+  }
+
+  function compile(content, theme) {
+    var skipped = [];
+    var request = readConfig(skipped);
+    if (skipped.length > 0) {
+      warn('Tailwind: ignored ' + skipped.join(', ') + ' in ' + input.config + ' (only JSON values and known plugins are supported)');
+    }
+    var fallback = request === null;
+    if (fallback) request = { config: {}, plugins: [] };
+    request.stylesheets = input.stylesheets;
+    request.content = content;
+    if (theme && (input.ui || fallback)) withTheme(request, theme);
+
+    return fetch('/api/tailwind', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    }).then(function (response) {
+      if (response.ok) return response.json();
+      return response.json().then(function (body) {
+        throw new Error('Tailwind CSS failed to compile:\n' + body.error);
+      });
+    }).then(function (result) {
+      result.errors.forEach(function (error) {
+        warn('Tailwind CSS failed to compile; the stylesheet is used as written:\n' + error);
+      });
+      return result.stylesheets.map(function (css, index) {
+        return { id: request.stylesheets[index].id, css: css };
+      });
+    });
+  }
+
+  function fetchVendor(path, read) {
+    return fetch('/vendor/ui/' + path).then(function (response) { return response.ok ? read(response) : null; });
+  }
+
+  var content = input.ui
+    ? fetchVendor('classes.txt', function (response) { return response.text(); })
+        .then(function (classes) { return input.content.concat([classes || '']); })
+    : Promise.resolve(input.content);
+  var theme = fetchVendor('theme.json', function (response) { return response.json(); });
+
+  // When Tailwind cannot compile at all, the stylesheets go in as written
+  preview.styles = Promise.all([content, theme, preview.ready]).then(function (results) {
+    return compile(results[0], results[1]);
+  }).then(function (stylesheets) {
+    stylesheets.forEach(function (stylesheet) {
+      if (stylesheet.id) preview.setStyle(stylesheet.id, stylesheet.css);
+      else document.getElementById('preview-tailwind-css').textContent = stylesheet.css;
+    });
+  }, function (error) {
+    warn(error.message);
+  });
+})();
+`
@@ -0,0 +1,220 @@
+import ts from "typescript"
+
+// ---------------------------------------------------------------------------
+// TypeScript -> JavaScript ---------------------------------------------------
+// ---------------------------------------------------------------------------
+// Types are removed with the real TypeScript compiler so that every construct
+// generated code may use (casts, `satisfies`, enums, generics, overloads,
+// definite assignment, parameter properties, ...) is handled. Module syntax is
+// lowered to CommonJS for the preview module runtime; JSX is preserved and left
+// to Babel inside the preview iframe. Server actions, functions marked
+// `"use server"` or exported from a file that is, are wrapped with
+// `__previewAction` so the preview can log their calls.
+
+const compilerOptions: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.CommonJS,
+  jsx: ts.JsxEmit.Preserve,
+  esModuleInterop: true,
+  isolatedModules: true,
+  useDefineForClassFields: false,
+  removeComments: false,
+}
+
+export class TranspileError extends Error {
+  constructor(
+    public path: string,
+    public line: number,
+    public column: number,
+    message: string,
+  ) {
+    super(`${path}:${line}:${column} - ${message}`)
+    this.name = "TranspileError"
+  }
+}
+
+export const toTranspileError = (path: string, diagnostic: ts.Diagnostic): TranspileError => {
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")
+  if (!diagnostic.file || diagnostic.start === undefined) return new TranspileError(path, 1, 1, message)
+  const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+  return new TranspileError(path, line + 1, character + 1, message)
+}
+
+// ---------------------------------------------------------------------------
+// Server actions -------------------------------------------------------------
+// ---------------------------------------------------------------------------
+
+/** Whether a file or function body opens with a `"use server"` directive. */
+const hasUseServer = (statements: readonly ts.Statement[]): boolean => {
+  for (const statement of statements) {
+    if (!ts.isExpressionStatement(statement) || !ts.isStringLiteral(statement.expression)) return false
+    if (statement.expression.text === "use server") return true
+  }
+  return false
+}
+
+const isFunction = (node: ts.Node | undefined): node is ts.ArrowFunction | ts.FunctionExpression =>
+  node !== undefined && (ts.isArrowFunction(node) || ts.isFunctionExpression(node))
+
+const hasModifier = (node: ts.Node, kind: ts.SyntaxKind): boolean =>
+  (ts.canHaveModifiers(node) && ts.getModifiers(node)?.some((m) => m.kind === kind)) ?? false
+
+/** Name an inline action is logged under: what it is assigned to, if anything. */
+const actionName = (node: ts.Node): string => {
+  const parent = node.parent
+  if (parent && (ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent)) && ts.isIdentifier(parent.name)) {
+    return parent.name.text
+  }
+  return "action"
+}
+
+function serverActions(path: string): ts.TransformerFactory<ts.SourceFile> {
+  return (context) => (source) => {
+    const { factory } = context
+    const fileLevel = hasUseServer(source.statements)
+    const isMarked = (node: ts.FunctionLikeDeclaration) =>
+      node.body !== undefined && ts.isBlock(node.body) && hasUseServer(node.body.statements)
+    const wrap = (name: string, fn: ts.Expression) =>
+      factory.createCallExpression(factory.createIdentifier("__previewAction"), undefined, [
+        factory.createStringLiteral(name),
+        fn,
+        factory.createStringLiteral(path),
+      ])
+
+    // Top-level actions are defined ahead of everything else, as the function
+    // declarations they replace are hoisted
+    const hoisted: ts.Statement[] = []
+    const localConst = (name: string, expression: ts.Expression) =>
+      factory.createVariableStatement(
+        undefined,
+        factory.createVariableDeclarationList(
+          [factory.createVariableDeclaration(name, undefined, undefined, expression)],
+          ts.NodeFlags.Const,
+        ),
+      )
+    // Exported separately, so the file keeps its own binding of the action. The
+    // names are new identifiers: TypeScript would lower the original ones to
+    // `exports.save`, with nothing left in the file's scope
+    const exportNames = (names: ts.Identifier[]) =>
+      factory.createExportDeclaration(
+        undefined,
+        false,
+        factory.createNamedExports(
+          names.map((name) => factory.createExportSpecifier(false, undefined, factory.createIdentifier(name.text))),
+        ),
+      )
+
+    // `async function save() {}` becomes `const save = __previewAction("save", async function save() {})`
+    const fromDeclaration = (node: ts.FunctionDeclaration, isTopLevel: boolean): ts.Statement[] => {
+      const name = node.name?.text ?? "default"
+      const expression = wrap(
+        name,
+        factory.createFunctionExpression(
+          ts.getModifiers(node)?.filter((m) => m.kind === ts.SyntaxKind.AsyncKeyword),
+          node.asteriskToken,
+          node.name,
+          node.typeParameters,
+          node.parameters,
+          node.type,
+          node.body!,
+        ),
+      )
+      const isExported = hasModifier(node, ts.SyntaxKind.ExportKeyword)
+      const isDefault = isExported && hasModifier(node, ts.SyntaxKind.DefaultKeyword)
+      if (!node.name) return [factory.createExportAssignment(undefined, undefined, expression)]
+
+      const declaration = localConst(node.name.text, expression)
+      const statements: ts.Statement[] = isTopLevel ? [] : [declaration]
+      if (isTopLevel) hoisted.push(declaration)
+      if (isDefault) {
+        statements.push(factory.createExportAssignment(undefined, undefined, factory.createIdentifier(node.name.text)))
+      } else if (isExported) {
+        statements.push(exportNames([node.name]))
+      }
+      return statements
+    }
+
+    const visit = (node: ts.Node): ts.VisitResult<ts.Node> => {
+      const isTopLevel = node.parent === source
+      if (ts.isFunctionDeclaration(node) && node.body) {
+        const exported = isTopLevel && fileLevel && hasModifier(node, ts.SyntaxKind.ExportKeyword)
+        if (isMarked(node) || exported) {
+          return fromDeclaration(ts.visitEachChild(node, visit, context) as ts.FunctionDeclaration, isTopLevel)
+        }
+      }
+      if (isFunction(node) && isMarked(node)) {
+        return wrap(actionName(node), ts.visitEachChild(node, visit, context))
+      }
+      // Functions a "use server" file exports as constants
+      if (ts.isVariableStatement(node) && isTopLevel && fileLevel && hasModifier(node, ts.SyntaxKind.ExportKeyword)) {
+        const actions = node.declarationList.declarations.filter(
+          (declaration) => isFunction(declaration.initializer) && ts.isIdentifier(declaration.name),
+        )
+        if (actions.length === 0) return ts.visitEachChild(node, visit, context)
+        // New names, so the declarations are no longer tied to the exports
+        const declarations = node.declarationList.declarations.map((declaration) => {
+          if (!ts.isIdentifier(declaration.name)) return ts.visitEachChild(declaration, visit, context)
+          const initializer =
+            declaration.initializer && ts.visitNode(declaration.initializer, visit, ts.isExpression)
+          return factory.createVariableDeclaration(
+            declaration.name.text,
+            declaration.exclamationToken,
+            declaration.type,
+            actions.includes(declaration) ? wrap(declaration.name.text, initializer!) : initializer,
+          )
+        })
+        return [
+          factory.createVariableStatement(
+            node.modifiers?.filter((m) => m.kind !== ts.SyntaxKind.ExportKeyword),
+            factory.createVariableDeclarationList(declarations, node.declarationList.flags),
+          ),
+          exportNames(node.declarationList.declarations.flatMap((d) => (ts.isIdentifier(d.name) ? [d.name] : []))),
+        ]
+      }
+      return ts.visitEachChild(node, visit, context)
+    }
+    const visited = ts.visitEachChild(source, visit, context)
+    if (hoisted.length === 0) return visited
+    // After the prologue, so "use server" stays a directive
+    const prologue = visited.statements.findIndex(
+      (statement) => !(ts.isExpressionStatement(statement) && ts.isStringLiteral(statement.expression)),
+    )
+    const at = prologue === -1 ? visited.statements.length : prologue
+    return factory.updateSourceFile(visited, [
+      ...visited.statements.slice(0, at),
+      ...hoisted,
+      ...visited.statements.slice(at),
+    ])
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Transpile ------------------------------------------------------------------
+// ---------------------------------------------------------------------------
+
+export interface TranspiledModule {
+  code: string
+  /** Every module specifier the file imports, re-exports or requires. */
+  imports: string[]
+}
+
+/**
+ * Strips TypeScript syntax from a project file and lowers its imports and
+ * exports to CommonJS, leaving JSX intact. Throws a `TranspileError` on syntax
+ * errors.
+ */
+export function transpile(path: string, code: string): TranspiledModule {
+  const fileName = /\.[cm]?[jt]sx?$/.test(path) ? path : `${path}.tsx`
+  const result = ts.transpileModule(code, {
+    fileName,
+    compilerOptions,
+    reportDiagnostics: true,
+    transformers: code.includes("use server") ? { before: [serverActions(path)] } : undefined,
+  })
+
+  const error = result.diagnostics?.find((d) => d.category === ts.DiagnosticCategory.Error)
+  if (error) throw toTranspileError(path, error)
+
+  const { importedFiles } = ts.preProcessFile(code, true, true)
+  return { code: result.outputText, imports: [...new Set(importedFiles.map((f) => f.fileName))] }
+}
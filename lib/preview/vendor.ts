@@ -0,0 +1,71 @@
+import vendor from "@/lib/preview/vendor.json"
+
+// ---------------------------------------------------------------------------
+// Vendored runtime assets ----------------------------------------------------
+// ---------------------------------------------------------------------------
+// Written into public/vendor by scripts/vendor.mjs and served by the app itself
+// under versioned, immutable URLs.
+
+export type VendorAsset = "react" | "react-dom" | "babel"
+
+/** Every vendored version of an asset, in manifest order. */
+export const vendorVersions = (name: VendorAsset): string[] =>
+  vendor.runtime.filter((asset) => asset.name === name).map((asset) => asset.version)
+
+/** Root-relative URL of a vendored asset, e.g. `/vendor/react@18.3.1/react.js`. */
+export function vendorUrl(name: VendorAsset, version = vendorVersions(name)[0]): string {
+  return `/vendor/${name}@${version}/${name}.js`
+}
+
+// ---------------------------------------------------------------------------
+// Package store --------------------------------------------------------------
+// ---------------------------------------------------------------------------
+// Prebuilt ES modules for npm packages generated code commonly imports. They
+// are loaded through an import map, which also points their
+// `react/jsx-runtime` imports at the preview's React version.
+
+interface StorePackage {
+  name: string
+  version: string
+  /** `false` for packages whose main entry cannot run in a browser. */
+  main?: boolean
+  subpaths?: string[]
+}
+
+const STORE: Record<string, string> = Object.fromEntries(
+  vendor.packages.flatMap(({ name, version, main = true, subpaths = [] }: StorePackage) => {
+    const base = `/vendor/packages/${name}@${version}`
+    return [
+      ...(main ? [[name, `${base}/index.js`]] : []),
+      ...subpaths.map((subpath) => [`${name}/${subpath}`, `${base}/${subpath}.js`]),
+    ]
+  }),
+)
+
+// ---------------------------------------------------------------------------
+// UI fallback ----------------------------------------------------------------
+// ---------------------------------------------------------------------------
+// This repository's own shadcn/ui components, hooks and `cn`, built together
+// with their Radix dependencies. Projects import them through the `@/` alias
+// without shipping the files; the packages are importable directly too.
+
+const UI: Record<string, string> = Object.fromEntries([
+  ...vendor.ui.modules.map((module) => [`@/${module}`, `/vendor/ui/${module}.js`]),
+  ...vendor.ui.packages.map((name) => [name, `/vendor/ui/packages/${name}.js`]),
+])
+
+/** Whether a specifier is served by the package store or the UI fallback. */
+export const isStorePackage = (specifier: string): boolean => specifier in STORE || specifier in UI
+
+/** The preview's import map for a given React version. */
+export function importMap(reactVersion: string): { imports: Record<string, string> } {
+  const jsxRuntime = `/vendor/react@${reactVersion}/jsx-runtime.js`
+  return {
+    imports: {
+      ...STORE,
+      ...UI,
+      "react/jsx-runtime": jsxRuntime,
+      "react/jsx-dev-runtime": jsxRuntime,
+    },
+  }
+}
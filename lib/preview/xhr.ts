@@ -0,0 +1,108 @@
+// ---------------------------------------------------------------------------
+// XMLHttpRequest -------------------------------------------------------------
+// ---------------------------------------------------------------------------
+// axios and older code make requests with XMLHttpRequest rather than fetch().
+// Runtimes that answer requests inside the preview (the project's API routes,
+// fetch mocks) hand their `Response` to XHR_RUNTIME, which plays it back
+// through the XMLHttpRequest the page made, events included.
+
+// Runs inside the preview iframe after the module runtime and before the
+// public files runtime, so it sees URLs after public files were rewritten.
+// Exposes `window.__preview.interceptXhr(intercept)`: `intercept` is called
+// with the method, URL, request headers and body of each request sent, and
+// returns a promise of the Response, a rejected one for a network error, or
+// nothing to let the request go out. The last one registered goes first.
+export const XHR_RUNTIME = String.raw`
+(function () {
+  var preview = window.__preview;
+  var proto = XMLHttpRequest.prototype;
+  var open = proto.open;
+  var send = proto.send;
+  var setRequestHeader = proto.setRequestHeader;
+  var interceptors = [];
+
+  proto.open = function (method, url) {
+    this.__previewRequest = { method: String(method).toUpperCase(), url: String(url), headers: {} };
+    return open.apply(this, arguments);
+  };
+
+  proto.setRequestHeader = function (name, value) {
+    if (this.__previewRequest) this.__previewRequest.headers[name] = value;
+    return setRequestHeader.apply(this, arguments);
+  };
+
+  // The request settles without reaching the network, so the properties it
+  // reports are set on the instance
+  function settle(xhr, fields, events) {
+    Object.keys(fields).forEach(function (name) {
+      Object.defineProperty(xhr, name, { value: fields[name], configurable: true });
+    });
+    events.forEach(function (type) {
+      xhr.dispatchEvent(new ProgressEvent(type));
+    });
+  }
+
+  function fail(xhr) {
+    settle(xhr, { readyState: 4, status: 0, statusText: '' }, ['readystatechange', 'error', 'loadend']);
+  }
+
+  function answer(xhr, url, response) {
+    return response.arrayBuffer().then(function (buffer) {
+      var text = new TextDecoder().decode(buffer);
+      var body = text;
+      if (xhr.responseType === 'json') {
+        try {
+          body = text ? JSON.parse(text) : null;
+        } catch (error) {
+          body = null;
+        }
+      } else if (xhr.responseType === 'blob') {
+        body = new Blob([buffer], { type: response.headers.get('content-type') || '' });
+      } else if (xhr.responseType === 'arraybuffer') {
+        body = buffer;
+      }
+      var fields = {
+        readyState: 4,
+        status: response.status,
+        statusText: response.statusText,
+        responseURL: url,
+        response: body,
+        getResponseHeader: function (name) { return response.headers.get(name); },
+        getAllResponseHeaders: function () {
+          var lines = [];
+          response.headers.forEach(function (value, name) { lines.push(name + ': ' + value); });
+          return lines.join('\r\n');
+        },
+      };
+      if (!xhr.responseType || xhr.responseType === 'text') fields.responseText = text;
+      settle(xhr, fields, ['readystatechange', 'load', 'loadend']);
+    });
+  }
+
+  proto.send = function (body) {
+    var xhr = this;
+    var request = xhr.__previewRequest;
+    var url = null;
+    try {
+      url = request && new URL(request.url, document.baseURI);
+    } catch (error) {
+      // Not a URL; the request fails as usual
+    }
+    for (var i = interceptors.length - 1; url && i >= 0; i--) {
+      var pending = interceptors[i](request.method, url, request.headers, body);
+      if (pending) {
+        pending.then(
+          function (response) { return answer(xhr, url.href, response); },
+          function () { fail(xhr); }
+        );
+        return;
+      }
+    }
+    return send.apply(xhr, arguments);
+  };
+
+  preview.interceptXhr = function (intercept) {
+    interceptors.push(intercept);
+  };
+})();
+`
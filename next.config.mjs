@@ -16,9 +16,34 @@ const nextConfig = {
           },
         ],
       },
+      {
+        // Preview runtime assets live under versioned paths and never change
+        source: '/vendor/:path*',
+        headers: [
+          {
+            key: 'Cache-Control',
+            value: 'public, max-age=31536000, immutable',
+          },
+        ],
+      },
+      {
+        // The UI fallback follows this repository's components, so only its
+        // content-hashed chunks are immutable
+        source: '/vendor/ui/:dir((?!chunks/).*)',
+        headers: [
+          {
+            key: 'Cache-Control',
+            value: 'public, max-age=0, must-revalidate',
+          },
+        ],
+      },
     ]
   },
   
+  // Tailwind reads its own CSS files from disk, so the /api/tailwind route
+  // loads it from node_modules instead of a bundle
+  serverExternalPackages: ['tailwindcss'],
+
   eslint: {
     ignoreDuringBuilds: true,
   },
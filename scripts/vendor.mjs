@@ -0,0 +1,182 @@
+// Writes the preview runtime listed in lib/preview/vendor.json into
+// public/vendor, failing when an installed package does not match its pinned
+// version.
+//
+// - `runtime` assets go to public/vendor/<name>@<version>/<name>.js. Assets with
+//   a `file` are copied as-is; assets with `entries` are bundled into a script
+//   exposing `global`, reading `externals` from other globals.
+// - Every React version also gets an ESM jsx-runtime.js for the package store.
+// - `packages` are the package store: each package (and each listed subpath)
+//   is bundled to an ES module under public/vendor/packages/<name>@<version>/.
+//   React is read from the preview's globals; react/jsx-runtime and the other
+//   store packages are left to the import map. `"main": false` skips a main
+//   entry that only runs in Node.
+// - `ui` is this repository's own shadcn/ui components, hooks and lib/utils,
+//   plus the packages they depend on that are not in the store. They are built
+//   together with code splitting into public/vendor/ui/ so that every component
+//   shares one copy of Radix; previews fall back to them when a project imports
+//   `@/components/ui/*` without shipping the file. Their class names are
+//   collected into public/vendor/ui/classes.txt for the Tailwind compiler, and
+//   the theme they are styled with into public/vendor/ui/theme.json.
+import { build } from "esbuild"
+import { copyFileSync, existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import { dirname, join } from "node:path"
+import { fileURLToPath } from "node:url"
+import postcss from "postcss"
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..")
+const vendorDir = join(root, "public/vendor")
+const { runtime, packages, ui } = JSON.parse(readFileSync(join(root, "lib/preview/vendor.json"), "utf8"))
+
+const REACT_GLOBALS = { react: "React", "react-dom": "ReactDOM", "react-dom/client": "ReactDOM" }
+const JSX_RUNTIMES = ["react/jsx-runtime", "react/jsx-dev-runtime"]
+
+const globalExternals = (externals) => ({
+  name: "global-externals",
+  setup(build) {
+    const names = Object.keys(externals).map((name) => name.replace(/[/]/g, "\\/"))
+    const filter = new RegExp(`^(${names.join("|")})$`)
+    build.onResolve({ filter }, (args) => ({ path: args.path, namespace: "global-externals" }))
+    build.onLoad({ filter: /.*/, namespace: "global-externals" }, (args) => ({
+      contents: `module.exports = window[${JSON.stringify(externals[args.path])}]`,
+    }))
+  },
+})
+
+const checkVersion = (name, pkg, version) => {
+  const installed = JSON.parse(readFileSync(join(root, "node_modules", pkg, "package.json"), "utf8")).version
+  if (installed !== version) {
+    throw new Error(`${name}: expected ${pkg}@${version} but ${installed} is installed`)
+  }
+}
+
+const bundle = (contents, outfile, options) =>
+  build({
+    stdin: { contents, resolveDir: root },
+    bundle: true,
+    outfile,
+    define: { "process.env.NODE_ENV": '"development"' },
+    logLevel: "error",
+    ...options,
+  })
+
+for (const asset of runtime) {
+  const { name, version, package: pkg } = asset
+  checkVersion(name, pkg, version)
+
+  const outDir = join(vendorDir, `${name}@${version}`)
+  const outFile = join(outDir, `${name}.js`)
+  mkdirSync(outDir, { recursive: true })
+
+  if (asset.file) {
+    copyFileSync(join(root, "node_modules", pkg, asset.file), outFile)
+  } else {
+    const requires = asset.entries.map((entry) => `require(${JSON.stringify(entry === "." ? pkg : `${pkg}/${entry}`)})`)
+    await bundle(`module.exports = Object.assign({}, ${requires.join(", ")})`, outFile, {
+      format: "iife",
+      globalName: asset.global,
+      plugins: asset.externals ? [globalExternals(asset.externals)] : [],
+    })
+  }
+
+  if (name === "react") {
+    await bundle(
+      [
+        `import runtime from "${pkg}/jsx-runtime"`,
+        `import devRuntime from "${pkg}/jsx-dev-runtime"`,
+        `export const { jsx, jsxs, Fragment } = runtime`,
+        `export const { jsxDEV } = devRuntime`,
+      ].join("\n"),
+      join(outDir, "jsx-runtime.js"),
+      { format: "esm", plugins: [globalExternals({ react: "React" })] },
+    )
+  }
+  console.log(`vendor: ${name}@${version}`)
+}
+
+
+for (const { name, version, main = true, subpaths = [] } of packages) {
+  checkVersion(name, name, version)
+
+  // Other store packages stay imports so every package shares one copy.
+  // esbuild treats subpaths of an external package as external too.
+  const otherPackages = packages.map((p) => p.name).filter((other) => other !== name)
+  const outDir = join(vendorDir, "packages", `${name}@${version}`)
+  for (const subpath of main ? [".", ...subpaths] : subpaths) {
+    const specifier = subpath === "." ? name : `${name}/${subpath}`
+    // `export *` skips the default export, so it is re-exported explicitly
+    // whenever the package has one.
+    await bundle(
+      [
+        `import * as ns from "${specifier}"`,
+        `export * from "${specifier}"`,
+        `const { default: value } = ns`,
+        `export default value`,
+      ].join("\n"),
+      join(outDir, `${subpath === "." ? "index" : subpath}.js`),
+      {
+        format: "esm",
+        external: [...JSX_RUNTIMES, ...otherPackages],
+        plugins: [globalExternals(REACT_GLOBALS)],
+      },
+    )
+  }
+  console.log(`vendor: ${name}@${version}`)
+}
+
+const uiDir = join(vendorDir, "ui")
+rmSync(uiDir, { recursive: true, force: true })
+const sourceFile = (module) => {
+  const file = [".tsx", ".ts"].map((ext) => join(root, module + ext)).find((candidate) => existsSync(candidate))
+  if (!file) throw new Error(`ui: ${module} does not exist`)
+  return file
+}
+await build({
+  entryPoints: [
+    ...ui.modules.map((module) => ({ in: sourceFile(module), out: module })),
+    ...ui.packages.map((name) => ({ in: name, out: `packages/${name}` })),
+  ],
+  absWorkingDir: root,
+  outdir: uiDir,
+  chunkNames: "chunks/[name]-[hash]",
+  bundle: true,
+  splitting: true,
+  format: "esm",
+  jsx: "automatic",
+  define: { "process.env.NODE_ENV": '"development"' },
+  external: [...JSX_RUNTIMES, ...packages.map((p) => p.name)],
+  plugins: [globalExternals(REACT_GLOBALS)],
+  logLevel: "error",
+})
+// Tailwind only sees project files, so class names used by the fallback
+// components are written out for the compiler to scan as well.
+const uiClasses = new Set(
+  ui.modules.flatMap((module) => readFileSync(sourceFile(module), "utf8").split(/[\s"'`]+/)),
+)
+writeFileSync(join(uiDir, "classes.txt"), [...uiClasses].join("\n"))
+// Their theme tokens (`bg-primary`, `ring-ring`, ...) come from this
+// repository's tailwind.config theme extension and the CSS variables in the
+// base layer of app/globals.css.
+const { outputFiles } = await build({
+  entryPoints: [join(root, "tailwind.config.ts")],
+  bundle: true,
+  write: false,
+  format: "esm",
+  platform: "node",
+  logLevel: "error",
+})
+const { default: tailwindConfig } = await import(
+  `data:text/javascript;base64,${Buffer.from(outputFiles[0].text).toString("base64")}`
+)
+const variables = []
+postcss.parse(readFileSync(join(root, "app/globals.css"), "utf8")).walkAtRules("layer", (layer) => {
+  if (layer.params !== "base") return
+  layer.each((node) => {
+    if (node.type === "rule" && /(^|,)\s*(:root|\.dark)\s*(,|$)/.test(node.selector)) variables.push(node.toString())
+  })
+})
+writeFileSync(
+  join(uiDir, "theme.json"),
+  JSON.stringify({ extend: tailwindConfig.theme.extend, css: variables.join("\n") }),
+)
+console.log(`vendor: ui (${ui.modules.length} modules, ${ui.packages.length} packages)`)
@@ -0,0 +1,69 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import vm from "node:vm"
+import { loadModule } from "./load-module.mjs"
+
+const { API_RUNTIME, readApiRoutes } = await loadModule("lib/preview/api-routes.ts")
+
+// Static and catch-all segments, as much of the router runtime as these routes need
+function match(segments, pathname) {
+  const parts = pathname.split("/").filter(Boolean)
+  const params = {}
+  for (const [i, segment] of segments.entries()) {
+    if (segment.kind === "catchAll") return parts.length > i ? { ...params, [segment.name]: parts.slice(i) } : null
+    if (segment.name !== parts[i]) return null
+  }
+  return parts.length === segments.length ? params : null
+}
+
+/** Installs the runtime over `modules`, keyed by module id, and returns what reaches the network and the host. */
+function apiRuntime(modules) {
+  const network = []
+  const reported = []
+  const window = {
+    fetch: async (input) => {
+      network.push(new URL(String(input), "http://localhost/").pathname)
+      return new Response("from the host")
+    },
+    parent: { postMessage: (message) => reported.push(message.request) },
+    __preview: {
+      api: readApiRoutes(Object.keys(modules)),
+      router: { match },
+      require: (id) => modules[id],
+      provide: () => {},
+      interceptXhr: () => {},
+    },
+  }
+  const document = { baseURI: "http://localhost/" }
+  vm.runInNewContext(API_RUNTIME, { window, document, URL, URLSearchParams, Headers, Request, Response, Blob })
+  return { fetch: window.fetch, network, reported }
+}
+
+test("the preview's own routes are not answered by a catch-all route", async () => {
+  const { fetch, network } = apiRuntime({
+    "app/api/[...slug]/route.ts": { __esModule: true, GET: () => Response.json({ from: "project" }) },
+  })
+  assert.deepEqual(await (await fetch("/api/todos")).json(), { from: "project" })
+  assert.equal(await (await fetch("/api/tailwind", { method: "POST" })).text(), "from the host")
+  assert.equal(await (await fetch("/vendor/ui/theme.json")).text(), "from the host")
+  assert.deepEqual(network, ["/api/tailwind", "/vendor/ui/theme.json"])
+})
+
+test("handler errors are reported with the request", async () => {
+  const { fetch, reported } = apiRuntime({
+    "app/api/[...slug]/route.ts": {
+      __esModule: true,
+      GET: () => {
+        throw new Error("database is down")
+      },
+    },
+    "pages/api/silent.ts": { __esModule: true, default: () => {} },
+  })
+  assert.equal((await fetch("/api/todos")).status, 500)
+  assert.equal((await fetch("/api/silent")).status, 200)
+  assert.equal(reported.length, 2)
+  assert.equal(reported[0].route, "/api/[...slug]")
+  assert.equal(reported[0].error, "database is down")
+  assert.equal(reported[1].route, "/api/silent")
+  assert.equal(reported[1].error, "Resolved without sending a response")
+})
@@ -0,0 +1,27 @@
+// Loads a TypeScript module of the app for a test. esbuild compiles it with
+// its `@/` imports; packages stay external and come from node_modules, which
+// is why the bundle is written below it. It is CommonJS so imports of package
+// files without an extension (`tailwindcss/lib/...`) resolve as in Next.js.
+import { build } from "esbuild"
+import { mkdirSync } from "node:fs"
+import { dirname, join } from "node:path"
+import { fileURLToPath, pathToFileURL } from "node:url"
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..")
+const cacheDir = join(root, "node_modules/.cache/preview-tests")
+
+/** Imports `path`, relative to the repository root, such as `lib/preview/transpile.ts`. */
+export async function loadModule(path) {
+  mkdirSync(cacheDir, { recursive: true })
+  const outfile = join(cacheDir, path.replace(/[/.]/g, "_") + ".cjs")
+  await build({
+    entryPoints: [join(root, path)],
+    outfile,
+    bundle: true,
+    format: "cjs",
+    platform: "node",
+    packages: "external",
+    logLevel: "error",
+  })
+  return import(`${pathToFileURL(outfile).href}?${Date.now()}`)
+}
@@ -0,0 +1,17 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { loadModule } from "./load-module.mjs"
+
+const { buildModules } = await loadModule("lib/preview/modules.ts")
+
+test("source files compile whatever MIME type they were sent with", () => {
+  const modules = buildModules([
+    { path: "App.tsx", type: "component", mimeType: "text/plain", content: "export default () => <p>hi</p>" },
+    { path: "data.json", type: "json", mimeType: "image/png", content: '{"a":1}' },
+    { path: "logo.bin", type: "asset", mimeType: "image/png", encoding: "base64", content: "iVBORw0KGgo=" },
+  ])
+  assert.match(modules["App.tsx"].code, /exports\.default/)
+  assert.equal(modules["App.tsx"].asset, undefined)
+  assert.ok(modules["data.json"].code)
+  assert.equal(modules["logo.bin"].asset.mimeType, "image/png")
+})
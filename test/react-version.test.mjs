@@ -0,0 +1,46 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { loadModule } from "./load-module.mjs"
+
+const { satisfies, selectReactRuntime } = await loadModule("lib/preview/react-version.ts")
+
+const withReact = (range) => [
+  { path: "package.json", type: "json", content: JSON.stringify({ dependencies: { react: range } }) },
+]
+
+test("satisfies reads npm ranges", () => {
+  const cases = [
+    ["18.3.1", "^18.2.0", true],
+    ["19.2.0", "^18.2.0", false],
+    ["18.3.1", "~18.2.0", false],
+    ["18.3.1", ">=16.8", true],
+    ["17.0.2", ">= 16.8 < 18", true],
+    ["18.3.1", "17.x || 18.x", true],
+    ["18.3.1", "16 - 18", true],
+    ["19.2.0", "16 - 18.2", false],
+    ["18.3.1", "<=18", true],
+    ["19.2.0", ">18", true],
+    ["18.3.1", "*", true],
+    ["18.3.1", "v18.3.1", true],
+    ["0.14.8", "^0.14.0", true],
+  ]
+  for (const [version, range, expected] of cases) assert.equal(satisfies(version, range), expected, `${version} ${range}`)
+  assert.equal(satisfies("18.3.1", "github:facebook/react"), null)
+})
+
+test("selectReactRuntime picks the newest build in range", () => {
+  assert.deepEqual(selectReactRuntime(withReact(">=16.8")), { version: "19.2.0", requested: ">=16.8", warning: null })
+  assert.equal(selectReactRuntime(withReact("^18.2.0")).version, "18.3.1")
+  assert.equal(selectReactRuntime(withReact("17.x")).version, "17.0.2")
+  assert.equal(selectReactRuntime(withReact("^17 || ^18")).version, "18.3.1")
+  assert.equal(selectReactRuntime(withReact("latest")).version, "19.2.0")
+})
+
+test("selectReactRuntime warns when no build is in range", () => {
+  const pinned = selectReactRuntime(withReact("18.2.0"))
+  assert.equal(pinned.version, "18.3.1")
+  assert.match(pinned.warning, /React 18\.2\.0 is not available/)
+  const old = selectReactRuntime(withReact("^16.14.0"))
+  assert.equal(old.version, "18.3.1")
+  assert.ok(old.warning)
+})
@@ -0,0 +1,119 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import vm from "node:vm"
+import { loadModule } from "./load-module.mjs"
+
+const { SERVER_RUNTIME } = await loadModule("lib/preview/server-components.ts")
+
+// The runtime in a context of its own, with just enough of React to call
+// components the way React would
+function serverRuntime() {
+  const React = { version: "18.3.1", createElement: (type, props) => ({ type, props }) }
+  const preview = { provide: () => {} }
+  vm.runInNewContext(SERVER_RUNTIME, { window: { __preview: preview }, React, Headers })
+  return (type, props) => {
+    const element = React.createElement(type, props)
+    return element.type(element.props)
+  }
+}
+
+/** Renders until the component stops suspending, as React retries it. */
+async function renderSettled(render, type, makeProps, attempts = 5) {
+  for (let i = 0; i < attempts; i++) {
+    try {
+      return render(type, makeProps())
+    } catch (thrown) {
+      if (typeof thrown?.then !== "function") throw thrown
+      await thrown
+    }
+  }
+  throw new Error(`still suspended after ${attempts} renders`)
+}
+
+test("an async component given a Date prop settles once", async () => {
+  const render = serverRuntime()
+  let calls = 0
+  const Published = async ({ date }) => {
+    calls++
+    return `published ${date.toISOString()}`
+  }
+  // Every render makes a new Date, as a parent computing it would
+  const result = await renderSettled(render, Published, () => ({ date: new Date(0) }))
+  assert.equal(result, "published 1970-01-01T00:00:00.000Z")
+  assert.equal(calls, 1)
+})
+
+test("props that JSON cannot encode still settle", async () => {
+  const render = serverRuntime()
+  let calls = 0
+  const node = { name: "root" }
+  node.self = node
+  const Tree = async ({ node, size }) => {
+    calls++
+    return `${node.name} ${size}`
+  }
+  const result = await renderSettled(render, Tree, () => ({ node, size: 10n, when: new Date(5) }))
+  assert.equal(result, "root 10")
+  assert.equal(calls, 1)
+})
+
+test("different props render again", async () => {
+  const render = serverRuntime()
+  const Day = async ({ date }) => date.getUTCDate()
+  assert.equal(await renderSettled(render, Day, () => ({ date: new Date(Date.UTC(2024, 0, 1)) })), 1)
+  assert.equal(await renderSettled(render, Day, () => ({ date: new Date(Date.UTC(2024, 0, 2)) })), 2)
+})
+
+// ---- Server actions ----------------------------------------------------------
+
+const { transpile } = await loadModule("lib/preview/transpile.ts")
+
+/** Evaluates a transpiled "use server" file, recording the actions it wraps. */
+function loadActions(source) {
+  const wrapped = []
+  const __previewAction = (name, fn) => {
+    wrapped.push(name)
+    return fn
+  }
+  const exports = {}
+  new Function("exports", "require", "__previewAction", transpile("actions.ts", source).code)(
+    exports,
+    () => ({}),
+    __previewAction,
+  )
+  return { exports, wrapped }
+}
+
+test("actions in a use server file call each other", async () => {
+  const { exports, wrapped } = loadActions(`"use server"
+const todos: string[] = []
+export async function getTodos() { return todos }
+export async function addTodo(title: string) {
+  todos.push(title)
+  return getTodos()
+}
+export const clearTodos = async () => {
+  todos.length = 0
+  return getTodos()
+}
+export default async function count() { return (await getTodos()).length }
+`)
+  assert.deepEqual(await exports.addTodo("milk"), ["milk"])
+  assert.equal(await exports.default(), 1)
+  assert.deepEqual(await exports.clearTodos(), [])
+  assert.deepEqual(wrapped.sort(), ["addTodo", "clearTodos", "count", "getTodos"])
+})
+
+test("an action can be used above its declaration", async () => {
+  const { exports } = loadActions(`"use server"
+export const ready = check()
+export async function save() { return normalize("a") }
+async function check() { return normalize("b") }
+async function normalize(value: string) {
+  "use server"
+  return value.toUpperCase()
+}
+`)
+  assert.equal(await exports.ready, "B")
+  assert.equal(await exports.save(), "A")
+})
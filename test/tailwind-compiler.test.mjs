@@ -0,0 +1,35 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { loadModule } from "./load-module.mjs"
+
+const { compileTailwind } = await loadModule("lib/preview/tailwind-compiler.ts")
+
+const request = (stylesheets) => ({
+  config: {},
+  plugins: [],
+  stylesheets,
+  content: ['<p class="text-red-500 border-border">'],
+})
+
+test("a stylesheet that fails to compile is returned as written", async () => {
+  const broken = "body { @apply border-border; }"
+  const { stylesheets, errors } = await compileTailwind(
+    request([
+      { id: null, css: "@tailwind utilities;" },
+      { id: "app/globals.css", css: broken },
+    ]),
+  )
+  assert.match(stylesheets[0], /\.text-red-500/)
+  assert.equal(stylesheets[1], broken)
+  assert.equal(errors.length, 1)
+  assert.match(errors[0], /^app\/globals\.css:1:\d+ - The `border-border` class does not exist/)
+})
+
+test("shadcn theme tokens compile once the theme defines them", async () => {
+  const { stylesheets, errors } = await compileTailwind({
+    ...request([{ id: "app/globals.css", css: "@tailwind utilities;\nbody { @apply border-border; }" }]),
+    config: { theme: { extend: { colors: { border: "hsl(var(--border))" } } } },
+  })
+  assert.deepEqual(errors, [])
+  assert.match(stylesheets[0], /border-color: hsl\(var\(--border\)\)/)
+})
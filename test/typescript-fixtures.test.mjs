@@ -0,0 +1,38 @@
+import Babel from "@babel/standalone"
+import assert from "node:assert/strict"
+import { readdirSync, readFileSync } from "node:fs"
+import { test } from "node:test"
+import vm from "node:vm"
+import React from "react"
+import ReactDOM from "react-dom"
+import { renderToStaticMarkup } from "react-dom/server"
+import { loadModule } from "./load-module.mjs"
+
+// Every fixture in fixtures/typescript goes through the preview's pipeline:
+// the module graph is built on the host, then the module runtime compiles the
+// JSX with Babel and evaluates the module as the preview iframe does, and its
+// default export is rendered.
+const dir = new URL("../fixtures/typescript/", import.meta.url)
+const { buildModules } = await loadModule("lib/preview/modules.ts")
+const { MODULE_RUNTIME } = await loadModule("lib/preview/runtime.ts")
+
+/** Runs the module runtime over `modules` and returns what the preview's `require` gives. */
+function previewRuntime(modules) {
+  const manifest = JSON.stringify({ modules, packages: [] })
+  const window = {}
+  const document = { getElementById: () => ({ textContent: manifest }) }
+  vm.runInNewContext(MODULE_RUNTIME, { window, document, React, ReactDOM, Babel })
+  return window.__preview
+}
+
+for (const name of readdirSync(dir).filter((f) => f.endsWith(".tsx"))) {
+  test(`fixtures/typescript/${name} renders in the preview`, () => {
+    const modules = buildModules([{ path: "App.tsx", content: readFileSync(new URL(name, dir), "utf8"), type: "c" }])
+    assert.equal(modules["App.tsx"].error, undefined)
+
+    const exports = previewRuntime(modules).require("App.tsx")
+    assert.equal(typeof exports.default, "function", "the default export is not a component")
+    const html = renderToStaticMarkup(React.createElement(exports.default))
+    assert.match(html, /^<\w+[^>]*>.*\S/s)
+  })
+}